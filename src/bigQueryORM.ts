@@ -1,18 +1,137 @@
 // src/bigQueryORM.ts
-import { BigQuery } from "@google-cloud/bigquery";
+import { BigQuery, Job, Query } from "@google-cloud/bigquery";
+import { AsyncLocalStorage } from "async_hooks";
 import * as fs from "fs";
 import * as path from "path";
-import { Model } from "./model";
+import {
+  AttributeName,
+  CreationAttributes,
+  Model,
+  ModelOptions,
+  ModelStatic,
+} from "./model";
 import { DataType, DataTypes } from "./dataTypes";
 import { QueryInterface } from "./queryInterface";
-import { dataTypeToSchemaField } from "./utils";
+import { dataTypeToSchemaField, serializeParamValue } from "./utils";
 import { createLogger, Logger } from "./logger";
+import { toTableMetadata } from "./tableOptions";
+import { MigrationStatus, Migrator } from "./migrator";
+import {
+  GeneratedMigration,
+  GenerateMigrationOptions,
+  generateMigration,
+} from "./migrationGenerator";
+import { IntrospectedModel, IntrospectOptions, introspect } from "./introspect";
+import { Transaction } from "./transaction";
+import {
+  FanOutOptions,
+  TenantContext,
+  TenantReport,
+  TenantScope,
+  runForTenants,
+} from "./tenancy";
+import {
+  applyAssociations,
+  isDecoratedModel,
+  modelDefinition,
+} from "./decorators";
+import { HookFunction, Hooks, QueryHookName } from "./hooks";
+import { DeserializeOptions, resolveDeserializeOptions } from "./deserialize";
+import {
+  DEFAULT_PRICE_PER_TIB,
+  estimateQueryCost,
+  FREE_TIER_MONTHLY_BYTES,
+  MonthlyUsage,
+  UsageLedger,
+  UsageReservation,
+} from "./usageLedger";
+import {
+  diffSchema,
+  mergeSchema,
+  SchemaChange,
+  SchemaField,
+} from "./schemaDiff";
 
 export interface BigQueryORMConfig {
   projectId: string;
+  // Dataset for model calls that pass none and whose model sets none
+  // (env: BIGQUERY_DATASET)
+  defaultDataset?: string;
+  // Maps a tenant id to its dataset (default: the id itself)
+  tenantDataset?: (tenantId: string) => string;
+  // Tenant ids syncTenants and runTenantMigrations fan out to
+  tenants?: () => string[] | Promise<string[]>;
   keyFilename?: string;
   logging?: boolean;
   freeTierMode?: boolean;
+  // How result values are converted to native JS types
+  deserialize?: DeserializeOptions;
+  // Jobs that would bill more bytes than this fail instead of running
+  maximumBytesBilled?: number | null;
+  // Dry-run every query before running it (always on in freeTierMode)
+  dryRunFirst?: boolean;
+  // Bytes freeTierMode allows per month (default: 1 TiB)
+  monthlyBytesLimit?: number;
+  // JSON file where freeTierMode records bytes billed per month
+  usageLedgerPath?: string;
+  // USD per TiB used for cost estimates
+  pricePerTiB?: number;
+  // Table recording executed migrations; its lock table gets a `_lock` suffix
+  migrationsTable?: string;
+  // Migration locks older than this are treated as abandoned
+  migrationLockTtlMs?: number;
+  // JSON file where freeTierMode records executed migrations
+  migrationsStatePath?: string;
+}
+
+export interface SyncOptions {
+  force?: boolean;
+  alter?: boolean;
+  // Report planned changes without creating or altering anything
+  dryRun?: boolean;
+}
+
+export interface SyncTableReport {
+  model: string;
+  tableName: string;
+  action: "create" | "recreate" | "alter" | "none";
+  changes: SchemaChange[];
+  applied: boolean;
+}
+
+export interface RunQueryOptions {
+  transaction?: Transaction;
+  // Fetch job statistics even when no afterQuery hook needs them
+  withMetadata?: boolean;
+  // Return INT64 values as BigQueryInt so no precision is lost
+  wrapIntegers?: boolean;
+  // Override the config's dryRunFirst and maximumBytesBilled for this query
+  dryRunFirst?: boolean;
+  maximumBytesBilled?: number | null;
+}
+
+export interface QueryEstimate {
+  totalBytesProcessed: number;
+  // USD at the configured on-demand price, before free-tier credits
+  estimatedCost: number;
+}
+
+export interface UsageReport extends MonthlyUsage {
+  limitBytes: number;
+  remainingBytes: number;
+}
+
+export interface StreamQueryOptions extends RunQueryOptions {
+  // Rows fetched per getQueryResults page
+  pageSize?: number;
+  // Aborting cancels the underlying query job
+  signal?: AbortSignal;
+}
+
+export interface QueryResult {
+  rows: any[];
+  jobId?: string;
+  statistics?: any;
 }
 
 export class BigQueryORM {
@@ -20,7 +139,9 @@ export class BigQueryORM {
   public config: Required<BigQueryORMConfig>;
   public models: Record<string, typeof Model> = {};
   private queryInterface: QueryInterface;
-  private executedMigrations: Set<string> = new Set();
+  private hooks = new Hooks<QueryHookName>();
+  private ledger?: UsageLedger;
+  private tenantStorage = new AsyncLocalStorage<TenantContext>();
   public logger: Logger;
 
   constructor(config?: Partial<BigQueryORMConfig>) {
@@ -33,11 +154,38 @@ export class BigQueryORM {
 
     this.config = {
       projectId: config?.projectId || process.env.GOOGLE_CLOUD_PROJECT || "",
+      defaultDataset:
+        config?.defaultDataset || process.env.BIGQUERY_DATASET || "",
+      tenantDataset: config?.tenantDataset || ((tenantId) => tenantId),
+      tenants:
+        config?.tenants ||
+        (() => {
+          this.logger.error("[BigQueryORM:tenants] No tenants configured");
+          throw new Error(
+            "No tenants configured; set `tenants` in the config or pass them."
+          );
+        }),
       keyFilename:
         config?.keyFilename || process.env.GOOGLE_APPLICATION_CREDENTIALS || "",
       logging,
       freeTierMode: config?.freeTierMode ?? false,
+      deserialize: resolveDeserializeOptions(config?.deserialize),
+      maximumBytesBilled: config?.maximumBytesBilled ?? null,
+      dryRunFirst: config?.dryRunFirst ?? false,
+      monthlyBytesLimit: config?.monthlyBytesLimit ?? FREE_TIER_MONTHLY_BYTES,
+      usageLedgerPath: path.resolve(
+        config?.usageLedgerPath || ".orm-bq-usage.json"
+      ),
+      pricePerTiB: config?.pricePerTiB ?? DEFAULT_PRICE_PER_TIB,
+      migrationsTable: config?.migrationsTable || "migrations",
+      migrationLockTtlMs: config?.migrationLockTtlMs ?? 60 * 60 * 1000,
+      migrationsStatePath: path.resolve(
+        config?.migrationsStatePath || ".orm-bq-migrations.json"
+      ),
     };
+    if (this.config.freeTierMode) {
+      this.ledger = new UsageLedger(this.config.usageLedgerPath);
+    }
 
     if (!this.config.projectId) {
       this.logger.error(
@@ -127,9 +275,10 @@ export class BigQueryORM {
 
   async authenticate(): Promise<void> {
     this.logger.info("[BigQueryORM:authenticate] Starting authentication");
-    if (this.config.freeTierMode) {
+    const usage = this.getUsage();
+    if (usage) {
       this.logger.warn(
-        "[BigQueryORM:authenticate] Free tier mode: Limited to SELECT queries within 1TB limit."
+        `[BigQueryORM:authenticate] Free tier mode: ${usage.bytesBilled} of ${usage.limitBytes} bytes used in ${usage.month}.`
       );
     }
     try {
@@ -144,27 +293,45 @@ export class BigQueryORM {
     }
   }
 
-  define(
+  // Pass the row type to get typed finders, where clauses and create input:
+  // define<UserAttributes>("User", {...}). `C` is what create() requires
+  // and `A` maps include `as` names to the nested property types.
+  define<T = any, C = CreationAttributes<T>, A = {}>(
     name: string,
-    attributes: Record<string, DataType>,
-    options: { tableName?: string; primaryKey?: string } = {}
-  ): typeof Model {
+    attributes: { [K in AttributeName<T>]?: DataType },
+    options: ModelOptions = {}
+  ): ModelStatic<T, C, A> {
     this.logger.info("[BigQueryORM:define] Defining model", {
       name,
       attributes: Object.keys(attributes),
       options,
     });
     class DynamicModel extends Model {}
-    DynamicModel.init(attributes, {
+    DynamicModel.init(attributes as Record<string, DataType>, {
+      ...options,
       orm: this,
-      tableName: options.tableName,
-      primaryKey: options.primaryKey,
     });
     this.models[name] = DynamicModel;
     this.logger.info("[BigQueryORM:define] Model defined successfully", {
       name,
     });
-    return DynamicModel;
+    return DynamicModel as unknown as ModelStatic<T, C, A>;
+  }
+
+  // Registers @Table classes; associations are wired once all are initialized
+  addModels(models: (typeof Model)[]): void {
+    for (const model of models) {
+      const { attributes, options } = modelDefinition(model);
+      model.init(attributes, { ...options, orm: this });
+      this.models[model.name] = model;
+      this.logger.info("[BigQueryORM:addModels] Added model", {
+        name: model.name,
+        attributes: Object.keys(attributes),
+      });
+    }
+    for (const model of models) {
+      applyAssociations(model);
+    }
   }
 
   async loadModels(modelsPath: string): Promise<void> {
@@ -181,9 +348,22 @@ export class BigQueryORM {
         );
       this.logger.info("[BigQueryORM:loadModels] Found files", { files });
 
+      const decorated: (typeof Model)[] = [];
       for (const file of files) {
-        const modelFunc = (await import(path.resolve(modelsPath, file)))
-          .default;
+        const exported = await import(path.resolve(modelsPath, file));
+        // Default and named exports may be the same class
+        const classes = Array.from(
+          new Set(Object.values(exported).filter(isDecoratedModel))
+        );
+        if (classes.length) {
+          decorated.push(...classes.filter((cls) => !decorated.includes(cls)));
+          this.logger.info(
+            "[BigQueryORM:loadModels] Loaded decorated models from file",
+            { file, models: classes.map((cls) => cls.name) }
+          );
+          continue;
+        }
+        const modelFunc = exported.default;
         if (typeof modelFunc === "function") {
           modelFunc(this, DataTypes);
           this.logger.info("[BigQueryORM:loadModels] Loaded model from file", {
@@ -196,6 +376,8 @@ export class BigQueryORM {
           );
         }
       }
+      // Together, so decorated associations can reference any loaded class
+      this.addModels(decorated);
 
       for (const model of Object.values(this.models)) {
         if (typeof (model as any).associate === "function") {
@@ -222,10 +404,32 @@ export class BigQueryORM {
     }
   }
 
+  // Models whose tables sync and generated migrations manage in `dataset`:
+  // those without a dataset of their own or set to it. Models in another
+  // project are only read from.
+  modelsIn(dataset: string): (typeof Model)[] {
+    return Object.values(this.models).filter(
+      (model) =>
+        (!model.projectId || model.projectId === this.config.projectId) &&
+        (!model.dataset || model.dataset === dataset)
+    );
+  }
+
+  // Without a dataset, each model is synced into its own dataset or the
+  // defaultDataset
+  async sync(options?: SyncOptions): Promise<SyncTableReport[]>;
   async sync(
     dataset: string,
-    options: { force?: boolean; alter?: boolean } = {}
-  ): Promise<void> {
+    options?: SyncOptions
+  ): Promise<SyncTableReport[]>;
+  async sync(
+    dataset?: string | SyncOptions,
+    options: SyncOptions = {}
+  ): Promise<SyncTableReport[]> {
+    if (typeof dataset !== "string") {
+      options = dataset || {};
+      dataset = undefined;
+    }
     this.logger.info("[BigQueryORM:sync] Starting sync", { dataset, options });
     const { force = false, alter = false } = options;
     if (this.config.freeTierMode && (force || alter)) {
@@ -234,206 +438,543 @@ export class BigQueryORM {
       );
     }
 
+    const groups = new Map<string, (typeof Model)[]>();
+    if (dataset) {
+      groups.set(dataset, this.modelsIn(dataset));
+    } else {
+      for (const model of Object.values(this.models)) {
+        const target = model.datasetFor();
+        if (this.modelsIn(target).includes(model)) {
+          groups.set(target, [...(groups.get(target) || []), model]);
+        }
+      }
+    }
+    const reports: SyncTableReport[] = [];
+    for (const [target, models] of Array.from(groups)) {
+      reports.push(...(await this.syncDataset(target, models, options)));
+    }
+    return reports;
+  }
+
+  private async syncDataset(
+    dataset: string,
+    models: (typeof Model)[],
+    options: SyncOptions
+  ): Promise<SyncTableReport[]> {
+    const { force = false, alter = false, dryRun = false } = options;
     const ds = this.bigquery.dataset(dataset);
     const [dsExists] = await ds.exists();
-    if (!dsExists) {
+    if (!dsExists && !dryRun) {
       await ds.create();
       this.logger.info(`[BigQueryORM:sync] Created dataset ${dataset}`);
     }
 
-    for (const model of Object.values(this.models)) {
+    const reports: SyncTableReport[] = [];
+    for (const model of models) {
       const table = ds.table(model.tableName);
-      const [tExists] = await table.exists();
-      if (tExists && force) {
-        await table.delete();
-        this.logger.info(
-          `[BigQueryORM:sync] Deleted table ${model.tableName} in dataset ${dataset}`
-        );
-      }
+      const [tExists] = dsExists ? await table.exists() : [false];
+      const schema = Object.entries(model.attributes).map(([name, type]) =>
+        dataTypeToSchemaField(name, type)
+      );
+
       if (!tExists || force) {
-        const schema = Object.entries(model.attributes).map(([name, type]) =>
-          dataTypeToSchemaField(name, type)
-        );
-        const createOptions: any = { schema };
-        // Add clustering for primary key to optimize queries (BigQuery's equivalent to indexing)
-        if (model.primaryKey) {
-          createOptions.clustering = { fields: [model.primaryKey] };
+        reports.push({
+          model: model.name,
+          tableName: model.tableName,
+          action: tExists ? "recreate" : "create",
+          changes: [],
+          applied: !dryRun,
+        });
+        if (dryRun) continue;
+        if (tExists) {
+          await table.delete();
           this.logger.info(
-            `[BigQueryORM:sync] Clustering table ${model.tableName} by primary key ${model.primaryKey} in dataset ${dataset}`
+            `[BigQueryORM:sync] Deleted table ${model.tableName} in dataset ${dataset}`
           );
         }
+        // Clusters by primary key unless the model sets clusterBy
+        const createOptions: any = {
+          schema,
+          ...toTableMetadata(model.tableOptions, model.primaryKey),
+        };
+        this.logger.info(
+          `[BigQueryORM:sync] Partitioning and clustering for ${model.tableName} in dataset ${dataset}`,
+          {
+            timePartitioning: createOptions.timePartitioning,
+            rangePartitioning: createOptions.rangePartitioning,
+            clustering: createOptions.clustering,
+          }
+        );
         await table.create(createOptions);
         this.logger.info(
           `[BigQueryORM:sync] Created table ${model.tableName} in dataset ${dataset}`
         );
       } else if (alter) {
-        this.logger.warn(
-          "[BigQueryORM:sync] Alter sync not supported in free tier; manual migration recommended."
-        );
+        reports.push(await this.alterTable(dataset, model, schema, dryRun));
+      } else {
+        reports.push({
+          model: model.name,
+          tableName: model.tableName,
+          action: "none",
+          changes: [],
+          applied: false,
+        });
       }
     }
+    return reports;
   }
 
-  getQueryInterface(): QueryInterface {
-    this.logger.info(
-      "[BigQueryORM:getQueryInterface] Returning query interface"
-    );
-    return this.queryInterface;
-  }
-
-  async runMigrations(dataset: string, migrationsPath: string): Promise<void> {
-    this.logger.info("[BigQueryORM:runMigrations] Starting migrations", {
-      dataset,
-      migrationsPath,
-    });
-    if (this.config.freeTierMode) {
+  private async alterTable(
+    dataset: string,
+    model: typeof Model,
+    desired: SchemaField[],
+    dryRun: boolean
+  ): Promise<SyncTableReport> {
+    const table = this.bigquery.dataset(dataset).table(model.tableName);
+    const [metadata] = await table.getMetadata();
+    const live: SchemaField[] = metadata.schema?.fields || [];
+    const changes = diffSchema(live, desired);
+    const layout = toTableMetadata(model.tableOptions, model.primaryKey);
+    if (
+      layout.timePartitioning?.field !== metadata.timePartitioning?.field ||
+      layout.timePartitioning?.type !== metadata.timePartitioning?.type ||
+      layout.rangePartitioning?.field !== metadata.rangePartitioning?.field
+    ) {
       this.logger.warn(
-        "[BigQueryORM:runMigrations] Free tier mode: Migrations use in-memory tracking."
+        `[BigQueryORM:alterTable] Partitioning of ${model.tableName} differs from the model; alter cannot change it, use QueryInterface.addPartition`
       );
     }
+    const report: SyncTableReport = {
+      model: model.name,
+      tableName: model.tableName,
+      action: changes.length ? "alter" : "none",
+      changes,
+      applied: false,
+    };
 
-    const ds = this.bigquery.dataset(dataset);
-    let [dsExists] = await ds.exists();
-    if (!dsExists) {
-      await ds.create();
-      this.logger.info(
-        `[BigQueryORM:runMigrations] Created dataset ${dataset}`
+    for (const change of changes.filter((c) => !c.safe)) {
+      this.logger.warn(
+        `[BigQueryORM:alterTable] Skipping unsafe change ${change.kind} on ${model.tableName}.${change.path}: ${change.reason}`
       );
     }
-
-    const metaTable = ds.table("migrations");
-    let [tExists] = await metaTable.exists();
-    if (!tExists && !this.config.freeTierMode) {
-      await metaTable.create({
-        schema: [
-          { name: "name", type: "STRING" },
-          { name: "executed_at", type: "TIMESTAMP" },
-        ],
-      });
+    const safeChanges = changes.filter((c) => c.safe);
+    if (dryRun || !safeChanges.length) {
       this.logger.info(
-        "[BigQueryORM:runMigrations] Created migrations table in dataset ${dataset}"
+        `[BigQueryORM:alterTable] ${safeChanges.length} safe change(s) planned for ${model.tableName} in dataset ${dataset}`,
+        { dryRun }
       );
+      return report;
     }
 
-    let executed: Set<string>;
-    if (this.config.freeTierMode) {
-      executed = this.executedMigrations;
-      this.logger.info(
-        "[BigQueryORM:runMigrations] Using in-memory executed migrations for free tier"
+    for (const change of safeChanges.filter((c) => c.kind === "widenType")) {
+      await this.queryInterface.changeColumn(
+        dataset,
+        model.tableName,
+        change.path,
+        model.attributes[change.path]
       );
-    } else {
-      const [rows] = await this.bigquery.query({
-        query: `SELECT name FROM \`${this.config.projectId}.${dataset}.migrations\` ORDER BY executed_at ASC`,
+    }
+
+    if (safeChanges.some((c) => c.kind !== "widenType")) {
+      // Re-read after DDL so the metadata update does not revert widened types
+      const [current] = await table.getMetadata();
+      const fields = mergeSchema(current.schema?.fields || [], desired);
+      const metadataUpdate: any = { schema: { fields } };
+      await table.setMetadata(metadataUpdate);
+    }
+
+    report.applied = true;
+    this.logger.info(
+      `[BigQueryORM:alterTable] Applied ${safeChanges.length} change(s) to ${model.tableName} in dataset ${dataset}`
+    );
+    return report;
+  }
+
+  addHook(name: QueryHookName, fn: HookFunction): void {
+    this.logger.info(`[BigQueryORM:addHook] Registered ${name} hook`);
+    this.hooks.add(name, fn);
+  }
+
+  removeHook(name: QueryHookName, fn?: HookFunction): void {
+    this.hooks.remove(name, fn);
+  }
+
+  // Single entry point for queries issued by models, the query interface and
+  // migrations. beforeQuery hooks receive the request and may modify it;
+  // afterQuery hooks receive the request and the result with job statistics.
+  async runQuery(
+    query: Query,
+    options: RunQueryOptions = {}
+  ): Promise<QueryResult> {
+    const request = this.prepareRequest(query, options);
+    await this.hooks.run("beforeQuery", request, options);
+    const reservation = await this.checkBudget(request, options);
+    let result: QueryResult;
+    try {
+      const [job] = await this.bigquery.createQueryJob(request);
+      const [rows] = await job.getQueryResults({
+        wrapIntegers: options.wrapIntegers,
       });
-      executed = new Set(rows.map((r: any) => r.name));
-      this.logger.info(
-        "[BigQueryORM:runMigrations] Fetched executed migrations",
-        { count: executed.size }
+      result = { rows, jobId: job.id };
+      if (options.withMetadata || this.hooks.has("afterQuery") || this.ledger) {
+        const [metadata] = await job.getMetadata();
+        result.statistics = metadata.statistics;
+      }
+    } catch (err) {
+      await this.releaseUsage(reservation);
+      throw err;
+    }
+    await this.recordUsage(result.statistics, reservation);
+    await this.hooks.run("afterQuery", request, result, options);
+    return result;
+  }
+
+  // Dry-runs a query and reports how many bytes it would process
+  async estimateQuery(
+    query: Query,
+    options: RunQueryOptions = {}
+  ): Promise<QueryEstimate> {
+    return this.dryRun(this.prepareRequest(query, options));
+  }
+
+  // Bytes billed this month by freeTierMode; null outside freeTierMode
+  getUsage(): UsageReport | null {
+    if (!this.ledger) return null;
+    const usage = this.ledger.usage();
+    return {
+      ...usage,
+      limitBytes: this.config.monthlyBytesLimit,
+      remainingBytes: Math.max(
+        this.config.monthlyBytesLimit - usage.bytesBilled - usage.reservedBytes,
+        0
+      ),
+    };
+  }
+
+  private prepareRequest(query: Query, options: RunQueryOptions): Query {
+    const request: Query = {
+      ...query,
+      ...options.transaction?.queryOptions(),
+    };
+    if (request.params) {
+      request.params = serializeParamValue(request.params);
+    }
+    const maximumBytesBilled =
+      options.maximumBytesBilled !== undefined
+        ? options.maximumBytesBilled
+        : this.config.maximumBytesBilled;
+    if (maximumBytesBilled != null && request.maximumBytesBilled == null) {
+      request.maximumBytesBilled = String(maximumBytesBilled);
+    }
+    return request;
+  }
+
+  private async dryRun(request: Query): Promise<QueryEstimate> {
+    const [job] = await this.bigquery.createQueryJob({
+      ...request,
+      dryRun: true,
+    });
+    const totalBytesProcessed = Number(
+      job.metadata?.statistics?.totalBytesProcessed || 0
+    );
+    return {
+      totalBytesProcessed,
+      estimatedCost: estimateQueryCost(
+        totalBytesProcessed,
+        this.config.pricePerTiB
+      ),
+    };
+  }
+
+  // Dry-runs the query when dryRunFirst is set or freeTierMode tracks usage,
+  // and refuses it before a job is created if it would go over budget. In
+  // freeTierMode the estimate is reserved in the ledger until the query is
+  // settled, so concurrent queries cannot overrun the month together.
+  private async checkBudget(
+    request: Query,
+    options: RunQueryOptions
+  ): Promise<UsageReservation | undefined> {
+    if (!(options.dryRunFirst ?? this.config.dryRunFirst) && !this.ledger) {
+      return undefined;
+    }
+    const { totalBytesProcessed, estimatedCost } = await this.dryRun(request);
+    this.logger.info("[BigQueryORM:checkBudget] Dry run estimate", {
+      totalBytesProcessed,
+      estimatedCost,
+    });
+    const maximumBytesBilled = Number(request.maximumBytesBilled ?? Infinity);
+    if (totalBytesProcessed > maximumBytesBilled) {
+      this.logger.error(
+        `[BigQueryORM:checkBudget] Query would process ${totalBytesProcessed} bytes, above maximumBytesBilled ${maximumBytesBilled}`
+      );
+      throw new Error(
+        `Query would process ${totalBytesProcessed} bytes, above maximumBytesBilled ${maximumBytesBilled}.`
+      );
+    }
+    if (!this.ledger) return undefined;
+    const reservation = await this.ledger.reserve(
+      totalBytesProcessed,
+      this.config.monthlyBytesLimit
+    );
+    if (!reservation) {
+      const usage = this.getUsage()!;
+      this.logger.error(
+        `[BigQueryORM:checkBudget] Free tier mode: query would process ${totalBytesProcessed} bytes with ${usage.remainingBytes} left in ${usage.month}`
+      );
+      throw new Error(
+        `Free tier mode: query would process ${totalBytesProcessed} bytes, exceeding the ${usage.remainingBytes} bytes left this month.`
       );
     }
+    return reservation;
+  }
 
-    const migrationFiles = fs
-      .readdirSync(migrationsPath)
-      .filter(
-        (f) => !f.endsWith(".d.ts") && (f.endsWith(".ts") || f.endsWith(".js"))
-      )
-      .sort();
-    this.logger.info("[BigQueryORM:runMigrations] Found migration files", {
-      files: migrationFiles,
+  private async recordUsage(
+    statistics: any,
+    reservation?: UsageReservation
+  ): Promise<void> {
+    if (!this.ledger) return;
+    const bytesBilled = Number(statistics?.query?.totalBytesBilled || 0);
+    const usage = reservation
+      ? await this.ledger.settle(reservation, bytesBilled)
+      : await this.ledger.record(bytesBilled);
+    this.logger.info("[BigQueryORM:recordUsage] Recorded bytes billed", {
+      bytesBilled,
+      monthTotal: usage.bytesBilled,
     });
+  }
 
-    for (const file of migrationFiles) {
-      const migrationName = path.basename(file, path.extname(file));
-      if (executed.has(migrationName)) {
-        this.logger.info(
-          `[BigQueryORM:runMigrations] Skipping migration ${migrationName} (already executed)`
-        );
-        continue;
-      }
+  private async releaseUsage(reservation?: UsageReservation): Promise<void> {
+    if (!this.ledger || !reservation) return;
+    await this.ledger.release(reservation);
+    this.logger.info("[BigQueryORM:releaseUsage] Released reserved bytes", {
+      bytes: reservation.bytes,
+    });
+  }
 
-      const migrationModule = await import(path.resolve(migrationsPath, file));
-      const migration = migrationModule.default || migrationModule;
-      await migration.up(this.queryInterface, this, dataset);
-      if (this.config.freeTierMode) {
-        this.executedMigrations.add(migrationName);
-        this.logger.info(
-          `[BigQueryORM:runMigrations] Migration ${migrationName} tracked in-memory`
-        );
-      } else {
-        const sql = `INSERT INTO \`${this.config.projectId}.${dataset}.migrations\` (name, executed_at) VALUES (@name, @executed_at)`;
-        await this.bigquery.query({
-          query: sql,
-          params: {
-            name: migrationName,
-            executed_at: new Date().toISOString(),
-          },
-        });
-        this.logger.info(
-          `[BigQueryORM:runMigrations] Migration ${migrationName} executed and recorded in dataset ${dataset}`
+  // Runs a query job and yields its result pages one at a time. The next
+  // page is only requested once the consumer asks for it; aborting the
+  // signal or leaving the loop early cancels the job.
+  async *streamQuery(
+    query: Query,
+    options: StreamQueryOptions = {}
+  ): AsyncGenerator<any[], void, undefined> {
+    const { signal, pageSize = 1000 } = options;
+    const request = this.prepareRequest(query, options);
+    if (signal?.aborted) {
+      throw new Error("Query was cancelled before it started");
+    }
+    await this.hooks.run("beforeQuery", request, options);
+    let reservation = await this.checkBudget(request, options);
+    let job: Job;
+    try {
+      [job] = await this.bigquery.createQueryJob(request);
+    } catch (err) {
+      await this.releaseUsage(reservation);
+      throw err;
+    }
+    let finished = false;
+    const cancel = () => {
+      if (finished) return;
+      finished = true;
+      this.logger.info("[BigQueryORM:streamQuery] Cancelling query job", {
+        jobId: job.id,
+      });
+      job
+        .cancel()
+        .catch((err: any) =>
+          this.logger.warn(
+            "[BigQueryORM:streamQuery] Failed to cancel job:",
+            err.message
+          )
         );
+    };
+    signal?.addEventListener("abort", cancel);
+    try {
+      let pageQuery: any = {
+        maxResults: pageSize,
+        autoPaginate: false,
+        wrapIntegers: options.wrapIntegers,
+      };
+      while (pageQuery) {
+        const [rows, nextQuery] = await job.getQueryResults(pageQuery);
+        if (signal?.aborted) {
+          throw new Error("Query was cancelled");
+        }
+        pageQuery = nextQuery;
+        if (rows?.length) {
+          yield rows;
+        }
+      }
+      finished = true;
+      // Streamed rows are not buffered, so afterQuery only sees statistics
+      const result: QueryResult = { rows: [], jobId: job.id };
+      if (options.withMetadata || this.hooks.has("afterQuery") || this.ledger) {
+        const [metadata] = await job.getMetadata();
+        result.statistics = metadata.statistics;
+      }
+      const settled = reservation;
+      reservation = undefined;
+      await this.recordUsage(result.statistics, settled);
+      await this.hooks.run("afterQuery", request, result, options);
+    } finally {
+      signal?.removeEventListener("abort", cancel);
+      // Reached when the consumer breaks out early or a page fails
+      cancel();
+      // A cancelled job may still be billed, so it is charged its estimate
+      if (reservation) {
+        await this.ledger!.settle(reservation, reservation.bytes);
       }
     }
   }
 
-  async revertLastMigration(
-    dataset: string,
-    migrationsPath: string
-  ): Promise<void> {
+  getQueryInterface(): QueryInterface {
     this.logger.info(
-      "[BigQueryORM:revertLastMigration] Starting revert last migration",
-      { dataset, migrationsPath }
+      "[BigQueryORM:getQueryInterface] Returning query interface"
     );
+    return this.queryInterface;
+  }
+
+  async runMigrations(
+    dataset: string,
+    migrationsPath: string
+  ): Promise<string[]> {
+    this.logger.info("[BigQueryORM:runMigrations] Starting migrations", {
+      dataset,
+      migrationsPath,
+    });
     if (this.config.freeTierMode) {
       this.logger.warn(
-        "[BigQueryORM:revertLastMigration] Free tier mode: Reverting migrations not supported."
+        `[BigQueryORM:runMigrations] Free tier mode: Migrations are tracked in ${this.config.migrationsStatePath}.`
       );
-      return;
     }
+    return new Migrator(this, dataset, migrationsPath).up();
+  }
 
-    const metaTable = this.bigquery.dataset(dataset).table("migrations");
-    const [rows] = await this.bigquery.query({
-      query: `SELECT name FROM \`${this.config.projectId}.${dataset}.migrations\` ORDER BY executed_at DESC LIMIT 1`,
+  async migrationStatus(
+    dataset: string,
+    migrationsPath: string
+  ): Promise<MigrationStatus[]> {
+    this.logger.info("[BigQueryORM:migrationStatus] Reading status", {
+      dataset,
+      migrationsPath,
     });
-    if (!rows.length) {
-      this.logger.info(
-        "[BigQueryORM:revertLastMigration] No migrations to revert"
-      );
-      return;
-    }
-    const migrationName = rows[0].name;
+    return new Migrator(this, dataset, migrationsPath).status();
+  }
 
-    const migrationFiles = fs
-      .readdirSync(migrationsPath)
-      .filter(
-        (f) => !f.endsWith(".d.ts") && (f.endsWith(".ts") || f.endsWith(".js"))
-      );
-    const migrationFile = migrationFiles.find(
-      (f) => path.basename(f, path.extname(f)) === migrationName
+  async revertLastMigration(
+    dataset: string,
+    migrationsPath: string
+  ): Promise<string[]> {
+    this.logger.info(
+      "[BigQueryORM:revertLastMigration] Starting revert last migration",
+      { dataset, migrationsPath }
     );
-    if (!migrationFile) {
-      this.logger.error(
-        "[BigQueryORM:revertLastMigration] Migration file not found",
-        { migrationName }
-      );
-      throw new Error(`Migration file not found: ${migrationName}`);
-    }
+    return new Migrator(this, dataset, migrationsPath).down({ step: 1 });
+  }
+
+  // Reverts migrations newest first down to and including `name`
+  async revertTo(
+    dataset: string,
+    migrationsPath: string,
+    name: string
+  ): Promise<string[]> {
+    this.logger.info("[BigQueryORM:revertTo] Reverting migrations", {
+      dataset,
+      migrationsPath,
+      name,
+    });
+    return new Migrator(this, dataset, migrationsPath).down({ to: name });
+  }
+
+  async revertAll(dataset: string, migrationsPath: string): Promise<string[]> {
+    this.logger.info("[BigQueryORM:revertAll] Reverting all migrations", {
+      dataset,
+      migrationsPath,
+    });
+    return new Migrator(this, dataset, migrationsPath).down();
+  }
+
+  forTenant(tenantId: string): TenantScope {
+    return new TenantScope(this, tenantId, this.tenantStorage);
+  }
 
-    const migrationModule = await import(
-      path.resolve(migrationsPath, migrationFile)
+  // Runs `fn` with the tenant's dataset as the default for model calls
+  withTenant<T>(tenantId: string, fn: () => T): T {
+    return this.forTenant(tenantId).run(fn);
+  }
+
+  currentTenant(): TenantContext | undefined {
+    return this.tenantStorage.getStore();
+  }
+
+  async syncTenants(
+    options: SyncOptions & FanOutOptions = {}
+  ): Promise<TenantReport<SyncTableReport[]>[]> {
+    const { tenants, concurrency = 4, ...syncOptions } = options;
+    const tenantIds = tenants || (await this.config.tenants());
+    this.logger.info("[BigQueryORM:syncTenants] Syncing tenants", {
+      tenants: tenantIds.length,
+      concurrency,
+    });
+    return runForTenants(this, tenantIds, concurrency, (scope) =>
+      scope.sync(syncOptions)
     );
-    const migration = migrationModule.default || migrationModule;
-    await migration.down(this.queryInterface, this, dataset);
-    const sql = `DELETE FROM \`${this.config.projectId}.${dataset}.migrations\` WHERE name = @migrationName`;
-    await this.bigquery.query({ query: sql, params: { migrationName } });
-    this.logger.info(
-      `[BigQueryORM:revertLastMigration] Reverted migration ${migrationName} in dataset ${dataset}`
+  }
+
+  async runTenantMigrations(
+    migrationsPath: string,
+    options: FanOutOptions = {}
+  ): Promise<TenantReport<string[]>[]> {
+    const { tenants, concurrency = 4 } = options;
+    const tenantIds = tenants || (await this.config.tenants());
+    this.logger.info("[BigQueryORM:runTenantMigrations] Migrating tenants", {
+      tenants: tenantIds.length,
+      concurrency,
+      migrationsPath,
+    });
+    return runForTenants(this, tenantIds, concurrency, (scope) =>
+      scope.runMigrations(migrationsPath)
     );
   }
 
-  async transaction(
+  // Writes a migration that brings the dataset (or the schema snapshot) in
+  // line with the loaded models
+  async generateMigration(
     dataset: string,
-    fn: (qi: QueryInterface, dataset: string) => Promise<void>
-  ): Promise<void> {
+    migrationsPath: string,
+    name: string,
+    options: GenerateMigrationOptions = {}
+  ): Promise<GeneratedMigration> {
+    this.logger.info("[BigQueryORM:generateMigration] Diffing models", {
+      dataset,
+      migrationsPath,
+      name,
+      options,
+    });
+    return generateMigration(this, dataset, migrationsPath, name, options);
+  }
+
+  // Reads table metadata into model definitions; pass outDir to write
+  // model files loadModels can consume
+  async introspect(
+    dataset: string,
+    options: IntrospectOptions = {}
+  ): Promise<IntrospectedModel[]> {
+    this.logger.info("[BigQueryORM:introspect] Reading dataset", {
+      dataset,
+      options,
+    });
+    return introspect(this, dataset, options);
+  }
+
+  async transaction<T = void>(
+    dataset: string,
+    fn: (
+      qi: QueryInterface,
+      dataset: string,
+      transaction: Transaction
+    ) => Promise<T>
+  ): Promise<T> {
     this.logger.info("[BigQueryORM:transaction] Starting transaction", {
       dataset,
     });
@@ -442,15 +983,28 @@ export class BigQueryORM {
         "[BigQueryORM:transaction] Free tier mode: Transactions limited to SELECT queries."
       );
     }
+    const transaction = new Transaction(this);
+    await transaction.begin();
+    let result: T;
     try {
-      await fn(this.queryInterface, dataset);
-      this.logger.info("[BigQueryORM:transaction] Transaction successful");
+      result = await fn(this.queryInterface, dataset, transaction);
     } catch (err: any) {
       this.logger.error(
-        "[BigQueryORM:transaction] Transaction failed:",
+        "[BigQueryORM:transaction] Transaction failed, rolling back:",
         err.message
       );
+      try {
+        await transaction.rollback();
+      } catch (rollbackErr: any) {
+        this.logger.error(
+          "[BigQueryORM:transaction] Rollback failed:",
+          rollbackErr.message
+        );
+      }
       throw err;
     }
+    await transaction.commit();
+    this.logger.info("[BigQueryORM:transaction] Transaction committed");
+    return result;
   }
 }
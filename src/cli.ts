@@ -0,0 +1,465 @@
+#!/usr/bin/env node
+// src/cli.ts
+import * as fs from "fs";
+import * as path from "path";
+import { BigQueryORM, BigQueryORMConfig, SyncTableReport } from "./bigQueryORM";
+import { FanOutOptions, TenantReport } from "./tenancy";
+import { DataType, DataTypes } from "./dataTypes";
+import {
+  SourceLanguage,
+  migrationTimestamp,
+  renderMigrationFile,
+  renderModelFile,
+} from "./codegen";
+
+export interface CliConfig extends Partial<BigQueryORMConfig> {
+  // Dataset used when --dataset is not passed (env: BIGQUERY_DATASET)
+  dataset?: string;
+  migrationsPath?: string;
+  modelsPath?: string;
+  // Language of generated files
+  language?: SourceLanguage;
+  // Schema snapshot used by `migration:generate --auto` instead of the live dataset
+  snapshotPath?: string;
+}
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const CONFIG_FILES = ["orm-bq.config.js", "orm-bq.config.json"];
+
+const USAGE = `Usage: orm-bq <command> [options]
+
+Commands:
+  migration:generate <name>          Create an empty migration file
+    [--auto] [--snapshot <file>]     ... or one that applies the model changes
+  migrate [--all-tenants]            Run pending migrations
+  migrate:undo [--to <name>] [--all] Revert the last, all, or down to a migration
+  migrate:status                     List executed, pending and missing migrations
+  model:generate <Name> <field:type>... [--table <name>]
+                                     Create a model file, e.g. id:integer:pk name:string tags:string[]
+  db:introspect [--tables <a,b>] [--force]
+                                     Generate model files from the dataset's tables
+  db:sync [--alter] [--force] [--dry-run] [--all-tenants]
+                                     Create or update tables for the loaded models
+
+Options:
+  --config <file>       Config file (default: ${CONFIG_FILES.join(" or ")})
+  --dataset <name>      Dataset (default: config dataset, defaultDataset or BIGQUERY_DATASET)
+  --migrations <dir>    Migrations directory (default: ./migrations)
+  --models <dir>        Models directory (default: ./models)
+  --js                  Generate JavaScript instead of TypeScript
+  --all-tenants         Run for every tenant from the config's \`tenants\`
+  --concurrency <n>     Tenants processed at the same time (default: 4)
+  --help                Show this message
+
+Without a config file, projectId and credentials come from GOOGLE_CLOUD_PROJECT
+and GOOGLE_APPLICATION_CREDENTIALS.`;
+
+// Boolean flags never consume the next argument
+const BOOLEAN_FLAGS = [
+  "alter",
+  "force",
+  "dry-run",
+  "all",
+  "help",
+  "js",
+  "auto",
+  "all-tenants",
+];
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      if (!parsed.command) parsed.command = arg;
+      else parsed.positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf("=");
+    const key = arg.slice(2, eq === -1 ? undefined : eq);
+    const next = argv[i + 1];
+    if (eq !== -1) {
+      parsed.flags[key] = arg.slice(eq + 1);
+    } else if (
+      !BOOLEAN_FLAGS.includes(key) &&
+      next !== undefined &&
+      !next.startsWith("--")
+    ) {
+      parsed.flags[key] = next;
+      i++;
+    } else {
+      parsed.flags[key] = true;
+    }
+  }
+  return parsed;
+}
+
+function loadConfig(file?: string): CliConfig {
+  const candidates = file ? [file] : CONFIG_FILES;
+  for (const candidate of candidates) {
+    const resolved = path.resolve(candidate);
+    if (!fs.existsSync(resolved)) {
+      if (file) throw new Error(`Config file ${resolved} not found.`);
+      continue;
+    }
+    const loaded = resolved.endsWith(".json")
+      ? JSON.parse(fs.readFileSync(resolved, "utf8"))
+      : require(resolved);
+    return loaded.default || loaded;
+  }
+  return {};
+}
+
+// Lets the compiled CLI load .ts models and migrations when ts-node is installed
+function registerTypeScript(): void {
+  for (const hook of ["ts-node/register/transpile-only", "ts-node/register"]) {
+    try {
+      require(require.resolve(hook, { paths: [process.cwd()] }));
+      return;
+    } catch {
+      // try the next hook
+    }
+  }
+}
+
+function stringFlag(args: ParsedArgs, key: string): string | undefined {
+  const value = args.flags[key];
+  return typeof value === "string" ? value : undefined;
+}
+
+function requireDataset(args: ParsedArgs, config: CliConfig): string {
+  const dataset =
+    stringFlag(args, "dataset") ||
+    config.dataset ||
+    config.defaultDataset ||
+    process.env.BIGQUERY_DATASET;
+  if (!dataset) {
+    throw new Error(
+      "No dataset given; pass --dataset, set `dataset` or `defaultDataset` in the config file or BIGQUERY_DATASET."
+    );
+  }
+  return dataset;
+}
+
+function createOrm(config: CliConfig): BigQueryORM {
+  const {
+    dataset,
+    migrationsPath,
+    modelsPath,
+    language,
+    snapshotPath,
+    ...ormConfig
+  } = config;
+  registerTypeScript();
+  return new BigQueryORM(ormConfig);
+}
+
+// DataTypes members that are not `(options?) => DataType` factories
+const NON_SCALAR_TYPES = [
+  "DECIMAL",
+  "ARRAY",
+  "STRUCT",
+  "NOW",
+  "NOW_DATETIME",
+  "UUIDV4",
+] as const;
+
+type ScalarTypeName = Exclude<
+  keyof typeof DataTypes,
+  (typeof NON_SCALAR_TYPES)[number]
+>;
+
+function isScalarTypeName(name: string): name is ScalarTypeName {
+  return (
+    name in DataTypes && !(NON_SCALAR_TYPES as readonly string[]).includes(name)
+  );
+}
+
+// `name:type[:pk][:required]`; `type[]` makes an ARRAY, `decimal(p,s)` sets precision
+export function parseFieldSpec(spec: string): [string, DataType] {
+  const [name, rawType, ...flags] = spec.split(":");
+  if (!name || !rawType) {
+    throw new Error(`Invalid field "${spec}"; expected name:type.`);
+  }
+  const repeated = rawType.endsWith("[]");
+  const typeName = repeated ? rawType.slice(0, -2) : rawType;
+  const decimal = /^(?:decimal|numeric)(?:\((\d+),\s*(\d+)\))?$/i.exec(
+    typeName
+  );
+  const factoryName = typeName.toUpperCase();
+  let dt: DataType;
+  if (decimal) {
+    dt = DataTypes.DECIMAL(
+      decimal[1] ? Number(decimal[1]) : 38,
+      decimal[2] ? Number(decimal[2]) : 9
+    );
+  } else if (isScalarTypeName(factoryName)) {
+    dt = DataTypes[factoryName]();
+  } else {
+    throw new Error(`Unknown type "${typeName}" for field ${name}.`);
+  }
+  for (const flag of flags) {
+    if (flag === "pk") dt.primaryKey = true;
+    else if (flag === "required") dt.allowNull = false;
+    else throw new Error(`Unknown flag "${flag}" for field ${name}.`);
+  }
+  return [name, repeated ? DataTypes.ARRAY(dt) : dt];
+}
+
+function writeNewFile(file: string, contents: string): void {
+  if (fs.existsSync(file)) {
+    throw new Error(`${file} already exists.`);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, contents);
+  console.log(`Created ${path.relative(process.cwd(), file)}`);
+}
+
+function printTable(rows: string[][]): void {
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  for (const row of rows) {
+    console.log(
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd()
+    );
+  }
+}
+
+function printTenantReports<T>(
+  reports: TenantReport<T>[],
+  print: (result: T) => void
+): void {
+  for (const report of reports) {
+    console.log(
+      `[${report.tenantId}] ${report.dataset}: ${report.status} in ${report.durationMs}ms`
+    );
+    if (report.status === "failed") console.log(`  ${report.error?.message}`);
+    else print(report.result!);
+  }
+  if (reports.some((r) => r.status === "failed")) process.exitCode = 1;
+}
+
+function fanOutOptions(args: ParsedArgs): FanOutOptions {
+  if (args.flags.concurrency === undefined) return {};
+  const value = stringFlag(args, "concurrency");
+  const concurrency = Number(value);
+  if (!value || !Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `--concurrency must be a positive integer, got "${value ?? ""}".`
+    );
+  }
+  return { concurrency };
+}
+
+function printSyncReports(reports: SyncTableReport[]): void {
+  for (const report of reports) {
+    console.log(
+      report.action === "none"
+        ? `${report.tableName}: up to date`
+        : `${report.tableName}: ${report.action}${
+            report.applied ? "" : " (not applied)"
+          }`
+    );
+    for (const change of report.changes) {
+      console.log(
+        `  - ${change.kind} ${change.path}${
+          change.reason ? ` (${change.reason})` : ""
+        }`
+      );
+    }
+  }
+}
+
+export async function run(argv: string[]): Promise<void> {
+  const args = parseArgs(argv);
+  if (!args.command || args.flags.help) {
+    console.log(USAGE);
+    return;
+  }
+  const config = loadConfig(stringFlag(args, "config"));
+  const migrationsPath = path.resolve(
+    stringFlag(args, "migrations") || config.migrationsPath || "migrations"
+  );
+  const modelsPath = path.resolve(
+    stringFlag(args, "models") || config.modelsPath || "models"
+  );
+  const language: SourceLanguage = args.flags.js
+    ? "js"
+    : config.language || "ts";
+
+  switch (args.command) {
+    case "migration:generate": {
+      const name = args.positional[0];
+      if (!name) throw new Error("migration:generate needs a name.");
+      if (args.flags.auto) {
+        const orm = createOrm(config);
+        await orm.loadModels(modelsPath);
+        const snapshot = stringFlag(args, "snapshot") || config.snapshotPath;
+        const result = await orm.generateMigration(
+          requireDataset(args, config),
+          migrationsPath,
+          name,
+          {
+            snapshotPath: snapshot && path.resolve(snapshot),
+            language,
+            dryRun: !!args.flags["dry-run"],
+          }
+        );
+        if (result.file) {
+          console.log(`Created ${path.relative(process.cwd(), result.file)}`);
+        } else if (args.flags["dry-run"]) {
+          result.up.forEach((line) => console.log(line));
+        } else {
+          console.log("Models match the schema; no migration written.");
+        }
+        for (const change of result.unsupported) {
+          console.log(`  ! ${change.change}: ${change.reason}`);
+        }
+        return;
+      }
+      writeNewFile(
+        path.join(
+          migrationsPath,
+          `${migrationTimestamp()}-${name}.${language}`
+        ),
+        renderMigrationFile([], [], language)
+      );
+      return;
+    }
+    case "model:generate": {
+      const [modelName, ...specs] = args.positional;
+      if (!modelName || !specs.length) {
+        throw new Error("model:generate needs a model name and fields.");
+      }
+      const attributes = Object.fromEntries(specs.map(parseFieldSpec));
+      const primaryKey = Object.keys(attributes).find(
+        (name) => attributes[name].primaryKey
+      );
+      writeNewFile(
+        path.join(modelsPath, `${modelName.toLowerCase()}.${language}`),
+        renderModelFile(modelName, attributes, {
+          tableName: stringFlag(args, "table"),
+          primaryKey: primaryKey !== "id" ? primaryKey : undefined,
+          language,
+        })
+      );
+      return;
+    }
+    case "migrate": {
+      const orm = createOrm(config);
+      if (args.flags["all-tenants"]) {
+        printTenantReports(
+          await orm.runTenantMigrations(migrationsPath, fanOutOptions(args)),
+          (ran) => ran.forEach((name) => console.log(`  Migrated ${name}`))
+        );
+        return;
+      }
+      const ran = await orm.runMigrations(
+        requireDataset(args, config),
+        migrationsPath
+      );
+      console.log(
+        ran.length
+          ? ran.map((name) => `Migrated ${name}`).join("\n")
+          : "No pending migrations."
+      );
+      return;
+    }
+    case "migrate:undo": {
+      const orm = createOrm(config);
+      const dataset = requireDataset(args, config);
+      const to = stringFlag(args, "to");
+      const reverted = args.flags.all
+        ? await orm.revertAll(dataset, migrationsPath)
+        : to
+        ? await orm.revertTo(dataset, migrationsPath, to)
+        : await orm.revertLastMigration(dataset, migrationsPath);
+      console.log(
+        reverted.length
+          ? reverted.map((name) => `Reverted ${name}`).join("\n")
+          : "No executed migrations."
+      );
+      return;
+    }
+    case "migrate:status": {
+      const orm = createOrm(config);
+      const status = await orm.migrationStatus(
+        requireDataset(args, config),
+        migrationsPath
+      );
+      if (!status.length) {
+        console.log("No migrations.");
+        return;
+      }
+      printTable([
+        ["Status", "Migration", "Executed at"],
+        ...status.map((s) => [
+          s.checksumMismatch ? `${s.status} (edited)` : s.status,
+          s.name,
+          s.executedAt ? s.executedAt.toISOString() : "",
+        ]),
+      ]);
+      return;
+    }
+    case "db:introspect": {
+      const orm = createOrm(config);
+      const tables = stringFlag(args, "tables");
+      const models = await orm.introspect(requireDataset(args, config), {
+        tables: tables ? tables.split(",") : undefined,
+        outDir: modelsPath,
+        language,
+        overwrite: !!args.flags.force,
+      });
+      for (const model of models) {
+        const file = path.relative(process.cwd(), model.file!);
+        console.log(
+          model.skipped
+            ? `Skipped ${file}: it already exists (use --force to replace it)`
+            : `Created ${file} (${model.modelName})`
+        );
+      }
+      return;
+    }
+    case "db:sync": {
+      const orm = createOrm(config);
+      await orm.loadModels(modelsPath);
+      const syncOptions = {
+        alter: !!args.flags.alter,
+        force: !!args.flags.force,
+        dryRun: !!args.flags["dry-run"],
+      };
+      if (args.flags["all-tenants"]) {
+        printTenantReports(
+          await orm.syncTenants({ ...syncOptions, ...fanOutOptions(args) }),
+          printSyncReports
+        );
+        return;
+      }
+      // Without a dataset, models with their own dataset are synced there
+      const dataset = stringFlag(args, "dataset") || config.dataset;
+      const reports = dataset
+        ? await orm.sync(dataset, syncOptions)
+        : await orm.sync(syncOptions);
+      printSyncReports(reports);
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${args.command}".\n\n${USAGE}`);
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).catch((err: any) => {
+    console.error(err.message);
+    process.exit(1);
+  });
+}
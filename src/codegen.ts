@@ -0,0 +1,227 @@
+// src/codegen.ts
+import { DataType } from "./dataTypes";
+import { TableOptions } from "./tableOptions";
+
+export type SourceLanguage = "ts" | "js";
+
+// BigQuery column type -> DataTypes factory
+const FACTORIES: Record<string, string> = {
+  STRING: "STRING",
+  INT64: "INTEGER",
+  FLOAT64: "FLOAT",
+  BOOL: "BOOLEAN",
+  TIMESTAMP: "DATE",
+  DATE: "DATEONLY",
+  TIME: "TIME",
+  DATETIME: "DATETIME",
+  JSON: "JSON",
+  BYTES: "BYTES",
+  GEOGRAPHY: "GEOGRAPHY",
+  INTERVAL: "INTERVAL",
+};
+
+// Source for a value in generated files; keys are quoted only when needed
+export function renderValue(value: any, indent = ""): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => renderValue(v, indent)).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const inner = indent + "  ";
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .map((key) => {
+        const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+        return `${inner}${name}: ${renderValue(value[key], inner)},`;
+      });
+    return entries.length ? `{\n${entries.join("\n")}\n${indent}}` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+// `DataTypes.X(...)` source for an attribute
+export function renderDataType(dt: DataType, indent = ""): string {
+  if (dt.mode === "REPEATED") {
+    return `DataTypes.ARRAY(${renderDataType(
+      { ...dt, mode: undefined },
+      indent
+    )})`;
+  }
+  const options: Record<string, any> = {};
+  if (dt.allowNull === false) options.allowNull = false;
+  if (dt.primaryKey) options.primaryKey = true;
+  if (dt.defaultValue !== undefined) options.defaultValue = dt.defaultValue;
+  if (dt.description) options.description = dt.description;
+  const rendered = Object.keys(options).length
+    ? renderValue(options, indent)
+    : "";
+
+  if (dt.type === "STRUCT") {
+    const inner = indent + "  ";
+    const fields = Object.keys(dt.fields || {}).map(
+      (name) => `${inner}${name}: ${renderDataType(dt.fields![name], inner)},`
+    );
+    const body = fields.length ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+    return `DataTypes.STRUCT(${[body, rendered].filter(Boolean).join(", ")})`;
+  }
+  if (dt.type === "NUMERIC" || dt.type === "DECIMAL") {
+    const args = [String(dt.precision ?? 38), String(dt.scale ?? 9)];
+    return `DataTypes.DECIMAL(${[...args, rendered]
+      .filter(Boolean)
+      .join(", ")})`;
+  }
+  const factory = FACTORIES[dt.type];
+  if (!factory) {
+    // No factory for this type (e.g. BIGNUMERIC); emit the attribute itself
+    return renderValue(
+      {
+        type: dt.type,
+        allowNull: dt.allowNull ?? true,
+        precision: dt.precision,
+        scale: dt.scale,
+        ...options,
+      },
+      indent
+    );
+  }
+  return `DataTypes.${factory}(${rendered})`;
+}
+
+// Row value types under the default deserialize options
+const TS_TYPES: Record<string, string> = {
+  STRING: "string",
+  INT64: "number",
+  FLOAT64: "number",
+  NUMERIC: "string",
+  DECIMAL: "string",
+  BIGNUMERIC: "string",
+  BOOL: "boolean",
+  TIMESTAMP: "Date",
+  DATE: "string",
+  TIME: "string",
+  DATETIME: "string",
+  JSON: "any",
+  BYTES: "Buffer",
+  GEOGRAPHY: "string",
+  INTERVAL: "string",
+};
+
+export function renderTsType(dt: DataType, indent = ""): string {
+  let base: string;
+  if (dt.type === "STRUCT") {
+    const inner = indent + "  ";
+    const fields = Object.keys(dt.fields || {}).map(
+      (name) => `${inner}${name}: ${renderTsType(dt.fields![name], inner)};`
+    );
+    base = fields.length ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+  } else {
+    base = TS_TYPES[dt.type] || "any";
+  }
+  // REPEATED columns are [] rather than NULL
+  if (dt.mode === "REPEATED") {
+    return base.includes("\n") || base.includes(" ")
+      ? `Array<${base}>`
+      : `${base}[]`;
+  }
+  return dt.allowNull === false ? base : `${base} | null`;
+}
+
+// `export interface <Model>Attributes` describing a result row
+export function renderRowInterface(
+  modelName: string,
+  attributes: Record<string, DataType>
+): string {
+  const fields = Object.keys(attributes).map(
+    (name) => `  ${name}: ${renderTsType(attributes[name], "  ")};`
+  );
+  return `export interface ${modelName}Attributes {\n${fields.join("\n")}\n}`;
+}
+
+export interface ModelFileOptions extends TableOptions {
+  tableName?: string;
+  primaryKey?: string;
+  language?: SourceLanguage;
+}
+
+// A model file in the `(orm, DataTypes) => orm.define(...)` format loadModels expects
+export function renderModelFile(
+  modelName: string,
+  attributes: Record<string, DataType>,
+  options: ModelFileOptions = {}
+): string {
+  const { language = "ts", ...defineOptions } = options;
+  const fields = Object.keys(attributes)
+    .map(
+      (name) => `      ${name}: ${renderDataType(attributes[name], "      ")},`
+    )
+    .join("\n");
+  const rendered = Object.keys(defineOptions).filter(
+    (key) => (defineOptions as any)[key] !== undefined
+  ).length
+    ? `,\n    ${renderValue(defineOptions, "    ")}`
+    : "";
+  const signature =
+    language === "ts"
+      ? "(orm: BigQueryORM, DataTypes: typeof Types)"
+      : "(orm, DataTypes)";
+  const header =
+    language === "ts"
+      ? `import { BigQueryORM, DataTypes as Types } from "orm-bq";\n\n${renderRowInterface(
+          modelName,
+          attributes
+        )}\n\nexport default `
+      : "module.exports = ";
+  const typeArgument = language === "ts" ? `<${modelName}Attributes>` : "";
+  return `${header}${signature} => {
+  const ${modelName} = orm.define${typeArgument}(
+    "${modelName}",
+    {
+${fields}
+    }${rendered}
+  );
+  return ${modelName};
+};
+`;
+}
+
+// A migration file with the given up/down statements
+export function renderMigrationFile(
+  up: string[] = [],
+  down: string[] = [],
+  language: SourceLanguage = "ts"
+): string {
+  const body = (lines: string[]) =>
+    lines.length
+      ? lines
+          .join("\n")
+          .split("\n")
+          .map((l) => `    ${l}`)
+          .join("\n")
+      : "    // TODO";
+  const usesDataTypes = [...up, ...down].some((l) => l.includes("DataTypes."));
+  const params =
+    language === "ts"
+      ? "queryInterface: QueryInterface, orm: BigQueryORM, dataset: string"
+      : "queryInterface, orm, dataset";
+  const imports =
+    language === "ts"
+      ? `import { BigQueryORM, ${
+          usesDataTypes ? "DataTypes, " : ""
+        }QueryInterface } from "orm-bq";\n\nexport default {`
+      : `${
+          usesDataTypes ? 'const { DataTypes } = require("orm-bq");\n\n' : ""
+        }module.exports = {`;
+  return `${imports}
+  async up(${params}) {
+${body(up)}
+  },
+  async down(${params}) {
+${body(down)}
+  },
+};
+`;
+}
+
+// UTC YYYYMMDDHHmmss, so migration files sort in creation order
+export function migrationTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
@@ -1,5 +1,6 @@
 // src/dataTypes.ts
 import * as crypto from "crypto";
+import { AttributeValidators } from "./validation";
 
 export interface DataTypeAttribute {
   type: string;
@@ -10,6 +11,9 @@ export interface DataTypeAttribute {
   fields?: Record<string, DataTypeAttribute>;
   precision?: number;
   scale?: number;
+  // Column description stored in the table schema
+  description?: string;
+  validate?: AttributeValidators;
 }
 
 export type DataType = DataTypeAttribute;
@@ -0,0 +1,176 @@
+// src/decorators.ts
+import { DataType } from "./dataTypes";
+import { Model, ModelOptions } from "./model";
+
+// Written for TypeScript's `experimentalDecorators`. Declare columns as
+// `name!: string` with `useDefineForClassFields` off (the default below
+// ES2022), so class fields do not shadow the attribute accessors.
+
+export interface TableDecoratorOptions extends ModelOptions {
+  // Shorthand for DAY partitioning on this column
+  partitionBy?: string;
+}
+
+type ModelRef = () => typeof Model;
+
+interface AssociationDefinition {
+  type: "belongsTo" | "hasOne" | "hasMany" | "belongsToMany";
+  target: ModelRef;
+  as: string;
+  foreignKey?: string;
+  otherKey?: string;
+  through?: ModelRef;
+}
+
+interface ModelDefinition {
+  table?: TableDecoratorOptions;
+  columns: Record<string, DataType>;
+  primaryKeys: string[];
+  associations: AssociationDefinition[];
+}
+
+const definitions = new WeakMap<Function, ModelDefinition>();
+
+function definitionFor(ctor: Function): ModelDefinition {
+  let definition = definitions.get(ctor);
+  if (!definition) {
+    definition = { columns: {}, primaryKeys: [], associations: [] };
+    definitions.set(ctor, definition);
+  }
+  return definition;
+}
+
+export function Table(options: TableDecoratorOptions = {}) {
+  return (ctor: Function): void => {
+    definitionFor(ctor).table = options;
+  };
+}
+
+export function Column(type: DataType) {
+  return (target: object, propertyKey: string): void => {
+    definitionFor(target.constructor).columns[propertyKey] = type;
+  };
+}
+
+export function PrimaryKey(target: object, propertyKey: string): void {
+  definitionFor(target.constructor).primaryKeys.push(propertyKey);
+}
+
+function association(
+  type: AssociationDefinition["type"],
+  target: ModelRef,
+  options: Partial<Omit<AssociationDefinition, "type" | "target">>
+) {
+  return (model: object, propertyKey: string): void => {
+    definitionFor(model.constructor).associations.push({
+      type,
+      target,
+      ...options,
+      as: options.as || propertyKey,
+    });
+  };
+}
+
+// Targets are thunks so models can reference each other across files
+export function BelongsTo(
+  target: ModelRef,
+  options: { foreignKey?: string; as?: string } = {}
+) {
+  return association("belongsTo", target, options);
+}
+
+export function HasOne(
+  target: ModelRef,
+  options: { foreignKey?: string; as?: string } = {}
+) {
+  return association("hasOne", target, options);
+}
+
+export function HasMany(
+  target: ModelRef,
+  options: { foreignKey?: string; as?: string } = {}
+) {
+  return association("hasMany", target, options);
+}
+
+export function BelongsToMany(
+  target: ModelRef,
+  options: {
+    through: ModelRef;
+    foreignKey?: string;
+    otherKey?: string;
+    as?: string;
+  }
+) {
+  return association("belongsToMany", target, options);
+}
+
+export function isDecoratedModel(value: any): value is typeof Model {
+  return (
+    typeof value === "function" &&
+    value.prototype instanceof Model &&
+    !!definitions.get(value)?.table
+  );
+}
+
+// Columns and table options of a @Table class, including inherited columns
+export function modelDefinition(ctor: typeof Model): {
+  attributes: Record<string, DataType>;
+  options: ModelOptions;
+} {
+  const table = definitions.get(ctor)?.table;
+  if (!table) {
+    throw new Error(`${ctor.name} is not decorated with @Table`);
+  }
+  const chain: ModelDefinition[] = [];
+  for (
+    let current: any = ctor;
+    current && current !== Model;
+    current = Object.getPrototypeOf(current)
+  ) {
+    const definition = definitions.get(current);
+    if (definition) chain.unshift(definition);
+  }
+
+  const attributes: Record<string, DataType> = {};
+  for (const definition of chain) {
+    Object.assign(attributes, definition.columns);
+    for (const key of definition.primaryKeys) {
+      if (!attributes[key]) {
+        throw new Error(`@PrimaryKey ${ctor.name}.${key} has no @Column`);
+      }
+      attributes[key] = { ...attributes[key], primaryKey: true };
+    }
+  }
+  const { partitionBy, ...options } = table;
+  if (partitionBy && !options.timePartitioning) {
+    options.timePartitioning = { type: "DAY", field: partitionBy };
+  }
+  return { attributes, options };
+}
+
+// Sets up the decorated associations; every target must already be registered
+export function applyAssociations(ctor: typeof Model): void {
+  for (const assoc of definitions.get(ctor)?.associations || []) {
+    const target = assoc.target();
+    const options = { foreignKey: assoc.foreignKey, as: assoc.as };
+    switch (assoc.type) {
+      case "belongsTo":
+        ctor.belongsTo(target, options);
+        break;
+      case "hasOne":
+        ctor.hasOne(target, options);
+        break;
+      case "hasMany":
+        ctor.hasMany(target, options);
+        break;
+      case "belongsToMany":
+        ctor.belongsToMany(target, {
+          ...options,
+          otherKey: assoc.otherKey,
+          through: assoc.through!(),
+        });
+        break;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+// src/deserialize.ts
+import { DataType } from "./dataTypes";
+
+export interface DeserializeOptions {
+  // Set to false to return values exactly as the BigQuery client produces them
+  enabled?: boolean;
+  // "number" throws when a value does not fit in a safe JS integer
+  int64?: "number" | "bigint" | "string";
+  // A function receives the exact decimal string, e.g. (v) => new Decimal(v)
+  numeric?: "string" | ((value: string) => any);
+  timestamp?: "date" | "string";
+  parseJson?: boolean;
+}
+
+export const DEFAULT_DESERIALIZE_OPTIONS: Required<DeserializeOptions> = {
+  enabled: true,
+  int64: "number",
+  numeric: "string",
+  timestamp: "date",
+  parseJson: true,
+};
+
+export function resolveDeserializeOptions(
+  options?: DeserializeOptions
+): Required<DeserializeOptions> {
+  return { ...DEFAULT_DESERIALIZE_OPTIONS, ...options };
+}
+
+function isPlainObject(value: any): boolean {
+  if (Object.prototype.toString.call(value) !== "[object Object]") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// BigQueryInt, BigQueryTimestamp, BigQueryDate, BigQueryDatetime, BigQueryTime
+// and Geography all expose the literal as `value`
+function wrapperValue(value: any): string | undefined {
+  return value !== null &&
+    typeof value === "object" &&
+    typeof value.value === "string"
+    ? value.value
+    : undefined;
+}
+
+// The client returns NUMERIC and BIGNUMERIC as Big.js instances
+function isBig(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof value.toFixed === "function" &&
+    Array.isArray(value.c)
+  );
+}
+
+function toInt64(
+  value: any,
+  path: string,
+  options: Required<DeserializeOptions>
+): any {
+  const text = wrapperValue(value) ?? String(value);
+  switch (options.int64) {
+    case "string":
+      return text;
+    case "bigint":
+      return BigInt(text);
+    default: {
+      const number = Number(text);
+      if (!Number.isSafeInteger(number)) {
+        throw new Error(
+          `INT64 value ${text} in ${path} exceeds the safe integer range; set deserialize.int64 to "bigint" or "string"`
+        );
+      }
+      return number;
+    }
+  }
+}
+
+function toNumeric(value: any, options: Required<DeserializeOptions>): any {
+  // toFixed() without arguments never switches to exponent notation
+  const text = isBig(value) ? value.toFixed() : String(value);
+  return typeof options.numeric === "function" ? options.numeric(text) : text;
+}
+
+function toTimestamp(value: any, options: Required<DeserializeOptions>): any {
+  const text = wrapperValue(value);
+  if (text === undefined) return value;
+  return options.timestamp === "date" ? new Date(text) : text;
+}
+
+// Values without a known attribute type are converted by their runtime shape
+function deserializeUnknown(
+  value: any,
+  path: string,
+  options: Required<DeserializeOptions>
+): any {
+  if (value === null || value === undefined) return value;
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      deserializeUnknown(item, `${path}[${index}]`, options)
+    );
+  }
+  if (isBig(value)) return toNumeric(value, options);
+  switch (value?.constructor?.name) {
+    case "BigQueryInt":
+      return toInt64(value, path, options);
+    case "BigQueryTimestamp":
+      return toTimestamp(value, options);
+  }
+  const text = wrapperValue(value);
+  if (text !== undefined) return text;
+  if (isPlainObject(value)) {
+    return Object.keys(value).reduce((acc, key) => {
+      acc[key] = deserializeUnknown(value[key], `${path}.${key}`, options);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+}
+
+function deserializeValue(
+  dt: DataType | undefined,
+  value: any,
+  path: string,
+  options: Required<DeserializeOptions>
+): any {
+  if (!dt) return deserializeUnknown(value, path, options);
+  if (value === null || value === undefined) return value;
+
+  if (dt.mode === "REPEATED" && Array.isArray(value)) {
+    const itemType: DataType = { ...dt, mode: undefined };
+    return value.map((item, index) =>
+      deserializeValue(itemType, item, `${path}[${index}]`, options)
+    );
+  }
+
+  switch (dt.type) {
+    case "INT64":
+      return toInt64(value, path, options);
+    case "NUMERIC":
+    case "DECIMAL":
+    case "BIGNUMERIC":
+      return toNumeric(value, options);
+    case "TIMESTAMP":
+      return toTimestamp(value, options);
+    case "DATE":
+    case "DATETIME":
+    case "TIME":
+    case "GEOGRAPHY":
+      return wrapperValue(value) ?? value;
+    case "JSON":
+      return options.parseJson && typeof value === "string"
+        ? JSON.parse(value)
+        : value;
+    case "STRUCT": {
+      if (!isPlainObject(value)) return value;
+      const fields = dt.fields || {};
+      return Object.keys(value).reduce((acc, key) => {
+        acc[key] = deserializeValue(
+          fields[key],
+          value[key],
+          `${path}.${key}`,
+          options
+        );
+        return acc;
+      }, {} as Record<string, any>);
+    }
+    default:
+      return value;
+  }
+}
+
+// Converts result rows; `columns` maps result column names to attribute
+// types, and columns missing from it are converted by their runtime shape
+export function deserializeRows(
+  rows: Record<string, any>[],
+  columns: Record<string, DataType | undefined>,
+  options: DeserializeOptions = {}
+): Record<string, any>[] {
+  const resolved = resolveDeserializeOptions(options);
+  if (!resolved.enabled) return rows;
+  return rows.map((row) =>
+    Object.keys(row).reduce((acc, column) => {
+      acc[column] = deserializeValue(
+        columns[column],
+        row[column],
+        column,
+        resolved
+      );
+      return acc;
+    }, {} as Record<string, any>)
+  );
+}
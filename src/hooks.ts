@@ -0,0 +1,52 @@
+// src/hooks.ts
+
+export type HookFunction = (...args: any[]) => void | Promise<void>;
+
+export type ModelHookName =
+  | "beforeCreate"
+  | "afterCreate"
+  | "beforeBulkCreate"
+  | "afterBulkCreate"
+  | "beforeUpdate"
+  | "afterUpdate"
+  | "beforeBulkUpdate"
+  | "afterBulkUpdate"
+  | "beforeDestroy"
+  | "afterDestroy"
+  | "beforeBulkDestroy"
+  | "afterBulkDestroy"
+  | "beforeUpsert"
+  | "afterUpsert"
+  | "beforeFind"
+  | "afterFind";
+
+export type QueryHookName = "beforeQuery" | "afterQuery";
+
+export class Hooks<T extends string> {
+  private registry: Partial<Record<T, HookFunction[]>> = {};
+
+  add(name: T, fn: HookFunction): void {
+    (this.registry[name] ||= []).push(fn);
+  }
+
+  // Removes one hook, or every hook registered under the name
+  remove(name: T, fn?: HookFunction): void {
+    if (!fn) {
+      delete this.registry[name];
+      return;
+    }
+    this.registry[name] = (this.registry[name] || []).filter((h) => h !== fn);
+  }
+
+  has(name: T): boolean {
+    return !!this.registry[name]?.length;
+  }
+
+  // Hooks run sequentially in registration order; a throwing hook aborts
+  // the operation
+  async run(name: T, ...args: any[]): Promise<void> {
+    for (const fn of this.registry[name] || []) {
+      await fn(...args);
+    }
+  }
+}
@@ -6,3 +6,16 @@ export * from "./op";
 export * from "./queryInterface";
 export * from "./utils";
 export * from "./logger";
+export * from "./transaction";
+export * from "./schemaDiff";
+export * from "./hooks";
+export * from "./validation";
+export * from "./deserialize";
+export * from "./usageLedger";
+export * from "./queryStats";
+export * from "./tableOptions";
+export * from "./migrator";
+export * from "./migrationGenerator";
+export * from "./introspect";
+export * from "./decorators";
+export * from "./tenancy";
@@ -0,0 +1,130 @@
+// src/introspect.ts
+import * as fs from "fs";
+import * as path from "path";
+import { BigQueryORM } from "./bigQueryORM";
+import { SourceLanguage, renderModelFile } from "./codegen";
+import { DataType } from "./dataTypes";
+import { ModelOptions } from "./model";
+import { SchemaField } from "./schemaDiff";
+import { tableOptionsFromMetadata } from "./tableOptions";
+import { schemaFieldToDataType } from "./utils";
+
+export interface IntrospectOptions {
+  // Defaults to every table in the dataset except the migration tables
+  tables?: string[];
+  // Write one model file per table into this directory
+  outDir?: string;
+  language?: SourceLanguage;
+  // Replace model files that already exist instead of skipping them
+  overwrite?: boolean;
+}
+
+export interface IntrospectedModel {
+  modelName: string;
+  tableName: string;
+  attributes: Record<string, DataType>;
+  options: ModelOptions;
+  // Set when outDir is given
+  file?: string;
+  // The file already existed and was left untouched
+  skipped?: boolean;
+}
+
+// user_events -> UserEvents
+export function modelNameFor(tableName: string): string {
+  const name = tableName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `T${name}` : name;
+}
+
+function toModel(tableName: string, metadata: any): IntrospectedModel {
+  const fields: SchemaField[] = metadata.schema?.fields || [];
+  const attributes = fields.reduce((acc, field) => {
+    acc[field.name] = schemaFieldToDataType(field);
+    return acc;
+  }, {} as Record<string, DataType>);
+
+  const { clusterBy = [], ...tableOptions } =
+    tableOptionsFromMetadata(metadata);
+  // BigQuery's unenforced PRIMARY KEY, else the first clustering column
+  const primaryKey: string | undefined =
+    metadata.tableConstraints?.primaryKey?.columns?.[0] ?? clusterBy[0];
+  if (primaryKey && attributes[primaryKey]) {
+    attributes[primaryKey] = { ...attributes[primaryKey], primaryKey: true };
+  }
+  const modelName = modelNameFor(tableName);
+  const options: ModelOptions = {
+    // Spelled out so the model keeps this table when its name changes
+    tableName,
+    ...tableOptions,
+  };
+  if (primaryKey && primaryKey !== "id") options.primaryKey = primaryKey;
+  // Models cluster by primary key unless told otherwise
+  const effectiveKey = primaryKey || "id";
+  if (clusterBy.length !== 1 || clusterBy[0] !== effectiveKey) {
+    options.clusterBy = clusterBy;
+  }
+  return { modelName, tableName, attributes, options };
+}
+
+export async function introspect(
+  orm: BigQueryORM,
+  dataset: string,
+  options: IntrospectOptions = {}
+): Promise<IntrospectedModel[]> {
+  const { outDir, language = "ts", overwrite = false } = options;
+  const ds = orm.bigquery.dataset(dataset);
+  const migrationTables = [
+    orm.config.migrationsTable,
+    `${orm.config.migrationsTable}_lock`,
+  ];
+  const tableNames =
+    options.tables ||
+    (await ds.getTables())[0]
+      .map((table) => table.id!)
+      .filter((name) => !migrationTables.includes(name));
+
+  const models: IntrospectedModel[] = [];
+  for (const tableName of [...tableNames].sort()) {
+    const [metadata] = await ds.table(tableName).getMetadata();
+    if (metadata.type && metadata.type !== "TABLE") {
+      orm.logger.info(
+        `[Introspect:introspect] Skipping ${metadata.type} ${tableName}`
+      );
+      continue;
+    }
+    models.push(toModel(tableName, metadata));
+  }
+
+  if (outDir) {
+    fs.mkdirSync(outDir, { recursive: true });
+    for (const model of models) {
+      model.file = path.resolve(outDir, `${model.tableName}.${language}`);
+      try {
+        fs.writeFileSync(
+          model.file,
+          renderModelFile(model.modelName, model.attributes, {
+            ...model.options,
+            language,
+          }),
+          // "wx" fails instead of replacing a hand-edited model
+          { flag: overwrite ? "w" : "wx" }
+        );
+      } catch (err: any) {
+        if (err.code !== "EEXIST") throw err;
+        model.skipped = true;
+        orm.logger.warn(
+          `[Introspect:introspect] ${model.file} already exists; skipping ${model.tableName}`
+        );
+      }
+    }
+  }
+  orm.logger.info(
+    `[Introspect:introspect] Introspected ${models.length} table(s) in dataset ${dataset}`,
+    { outDir }
+  );
+  return models;
+}
@@ -0,0 +1,359 @@
+// src/migrationGenerator.ts
+import * as fs from "fs";
+import * as path from "path";
+import { BigQueryORM } from "./bigQueryORM";
+import {
+  SourceLanguage,
+  migrationTimestamp,
+  renderDataType,
+  renderMigrationFile,
+  renderValue,
+} from "./codegen";
+import { Model } from "./model";
+import { SchemaChange, SchemaField, diffSchema } from "./schemaDiff";
+import { TableOptions, tableOptionsFromMetadata } from "./tableOptions";
+import { dataTypeToSchemaField, schemaFieldToDataType } from "./utils";
+
+export interface TableSnapshot {
+  schema: SchemaField[];
+  // clusterBy is [] when the table is not clustered
+  options: TableOptions;
+}
+
+// Table name -> schema and layout
+export type SchemaSnapshot = Record<string, TableSnapshot>;
+
+export interface UnsupportedChange {
+  tableName: string;
+  change: string;
+  reason: string;
+}
+
+export interface MigrationPlan {
+  up: string[];
+  down: string[];
+  // Left as TODO comments in the generated file
+  unsupported: UnsupportedChange[];
+}
+
+export interface GenerateMigrationOptions {
+  // Diff against this JSON snapshot instead of the live dataset, and update
+  // it after writing the migration
+  snapshotPath?: string;
+  language?: SourceLanguage;
+  // Plan without writing the migration or the snapshot
+  dryRun?: boolean;
+}
+
+export interface GeneratedMigration extends MigrationPlan {
+  // Unset when there was nothing to migrate or on a dry run
+  file?: string;
+}
+
+interface Step {
+  up: string[];
+  down: string[];
+}
+
+export function modelSnapshot(models: (typeof Model)[]): SchemaSnapshot {
+  return models.reduce((acc, model) => {
+    acc[model.tableName] = {
+      schema: Object.entries(model.attributes).map(([name, type]) =>
+        dataTypeToSchemaField(name, type)
+      ),
+      // Same default as sync: cluster by primary key
+      options: {
+        ...model.tableOptions,
+        clusterBy: model.tableOptions.clusterBy ?? [model.primaryKey],
+      },
+    };
+    return acc;
+  }, {} as SchemaSnapshot);
+}
+
+export async function liveSnapshot(
+  orm: BigQueryORM,
+  dataset: string,
+  tableNames: string[]
+): Promise<SchemaSnapshot> {
+  const ds = orm.bigquery.dataset(dataset);
+  const [dsExists] = await ds.exists();
+  const snapshot: SchemaSnapshot = {};
+  if (!dsExists) return snapshot;
+  for (const tableName of tableNames) {
+    const table = ds.table(tableName);
+    const [exists] = await table.exists();
+    if (!exists) continue;
+    const [metadata] = await table.getMetadata();
+    snapshot[tableName] = {
+      schema: metadata.schema?.fields || [],
+      options: tableOptionsFromMetadata(metadata),
+    };
+  }
+  return snapshot;
+}
+
+export function readSnapshot(snapshotPath: string): SchemaSnapshot {
+  if (!fs.existsSync(snapshotPath)) return {};
+  return JSON.parse(fs.readFileSync(snapshotPath, "utf8"));
+}
+
+function renderAttributes(schema: SchemaField[]): string {
+  const fields = schema.map(
+    (field) =>
+      `  ${field.name}: ${renderDataType(schemaFieldToDataType(field), "  ")},`
+  );
+  return `{\n${fields.join("\n")}\n}`;
+}
+
+function createTableStep(tableName: string, table: TableSnapshot): string {
+  return `await queryInterface.createTable(dataset, ${JSON.stringify(
+    tableName
+  )}, ${renderAttributes(table.schema)}, ${renderValue(table.options)});`;
+}
+
+function dropTableStep(tableName: string): string {
+  return `await queryInterface.dropTable(dataset, ${JSON.stringify(
+    tableName
+  )});`;
+}
+
+function todo(change: string, reason: string): string {
+  return `// TODO: ${change}: ${reason}`;
+}
+
+// Only the partitioning fields, in a fixed key order
+function partitioningKey(options: TableOptions): string {
+  const time = options.timePartitioning;
+  const range = options.rangePartitioning;
+  return JSON.stringify([
+    time ? [time.type, time.field, time.expirationMs] : null,
+    range ? [range.field, range.start, range.end, range.interval] : null,
+  ]);
+}
+
+function isPartitioned(options: TableOptions): boolean {
+  return !!(options.rangePartitioning || options.timePartitioning?.field);
+}
+
+function columnStep(
+  tableName: string,
+  change: SchemaChange,
+  unsupported: UnsupportedChange[]
+): Step {
+  const table = JSON.stringify(tableName);
+  const column = JSON.stringify(change.path);
+  const label = `${change.kind} ${tableName}.${change.path}`;
+  const skip = (reason: string): Step => {
+    unsupported.push({ tableName, change: label, reason });
+    return { up: [todo(label, reason)], down: [] };
+  };
+  if (!change.safe && change.kind !== "dropColumn") {
+    return skip(change.reason || "not supported in place");
+  }
+  // QueryInterface column methods only address top-level columns
+  if (change.path.includes(".")) {
+    return skip(
+      change.kind === "addColumn"
+        ? "nested fields are added by sync({ alter: true }), not QueryInterface"
+        : "nested fields cannot be changed with QueryInterface"
+    );
+  }
+  switch (change.kind) {
+    case "addColumn":
+      return {
+        up: [
+          `await queryInterface.addColumn(dataset, ${table}, ${column}, ${renderDataType(
+            schemaFieldToDataType(change.to!)
+          )});`,
+        ],
+        down: [
+          `await queryInterface.removeColumn(dataset, ${table}, ${column});`,
+        ],
+      };
+    case "widenType":
+      return {
+        up: [
+          `await queryInterface.changeColumn(dataset, ${table}, ${column}, ${renderDataType(
+            schemaFieldToDataType(change.to!)
+          )});`,
+        ],
+        down: [todo(label, "types cannot be narrowed in place")],
+      };
+    case "relaxMode":
+      return {
+        up: [
+          `await queryInterface.query(dataset, \`ALTER TABLE \\\`\${orm.config.projectId}.\${dataset}.${tableName}\\\` ALTER COLUMN \\\`${change.path}\\\` DROP NOT NULL\`);`,
+        ],
+        down: [todo(label, "NOT NULL cannot be restored in place")],
+      };
+    case "dropColumn": {
+      // Re-added as NULLABLE: REQUIRED columns cannot be added to a table
+      const restored = {
+        ...schemaFieldToDataType(change.from!),
+        allowNull: true,
+      };
+      return {
+        up: [
+          `await queryInterface.removeColumn(dataset, ${table}, ${column});`,
+        ],
+        down: [
+          `// Restores the column, not its values`,
+          `await queryInterface.addColumn(dataset, ${table}, ${column}, ${renderDataType(
+            restored
+          )});`,
+        ],
+      };
+    }
+    default:
+      return skip(change.reason || "not supported in place");
+  }
+}
+
+function layoutStep(
+  tableName: string,
+  current: TableOptions,
+  desired: TableOptions,
+  unsupported: UnsupportedChange[]
+): Step | undefined {
+  const table = JSON.stringify(tableName);
+  if (partitioningKey(current) !== partitioningKey(desired)) {
+    const label = `partitioning ${tableName}`;
+    if (!isPartitioned(desired)) {
+      const reason =
+        "removing partitioning or switching to ingestion-time partitioning needs a manual rebuild";
+      unsupported.push({ tableName, change: label, reason });
+      return { up: [todo(label, reason)], down: [] };
+    }
+    // addPartition rebuilds the table, so clustering is applied with it
+    return {
+      up: [
+        `await queryInterface.addPartition(dataset, ${table}, ${renderValue(
+          desired
+        )});`,
+      ],
+      down: isPartitioned(current)
+        ? [
+            `await queryInterface.addPartition(dataset, ${table}, ${renderValue(
+              current
+            )});`,
+          ]
+        : [todo(label, "partitioning cannot be removed in place")],
+    };
+  }
+  const from = current.clusterBy || [];
+  const to = desired.clusterBy || [];
+  if (JSON.stringify(from) === JSON.stringify(to)) return undefined;
+  const label = `clustering ${tableName}`;
+  if (!to.length) {
+    const reason = "clustering cannot be removed with QueryInterface";
+    unsupported.push({ tableName, change: label, reason });
+    return { up: [todo(label, reason)], down: [] };
+  }
+  return {
+    up: [
+      `await queryInterface.addClustering(dataset, ${table}, ${renderValue(
+        to
+      )});`,
+    ],
+    down: from.length
+      ? [
+          `await queryInterface.addClustering(dataset, ${table}, ${renderValue(
+            from
+          )});`,
+        ]
+      : [todo(label, "clustering cannot be removed with QueryInterface")],
+  };
+}
+
+// Steps that turn `current` into `desired`. Tables missing from `desired`
+// are dropped, so pass only the tables migrations manage.
+export function planMigration(
+  current: SchemaSnapshot,
+  desired: SchemaSnapshot
+): MigrationPlan {
+  const steps: Step[] = [];
+  const unsupported: UnsupportedChange[] = [];
+
+  for (const [tableName, table] of Object.entries(desired)) {
+    const existing = current[tableName];
+    if (!existing) {
+      steps.push({
+        up: [createTableStep(tableName, table)],
+        down: [dropTableStep(tableName)],
+      });
+      continue;
+    }
+    for (const change of diffSchema(existing.schema, table.schema)) {
+      steps.push(columnStep(tableName, change, unsupported));
+    }
+    const layout = layoutStep(
+      tableName,
+      existing.options,
+      table.options,
+      unsupported
+    );
+    if (layout) steps.push(layout);
+  }
+
+  for (const [tableName, table] of Object.entries(current)) {
+    if (!desired[tableName]) {
+      steps.push({
+        up: [dropTableStep(tableName)],
+        down: [createTableStep(tableName, table)],
+      });
+    }
+  }
+
+  return {
+    up: steps.flatMap((s) => s.up),
+    // Undo in reverse order
+    down: steps.reverse().flatMap((s) => s.down),
+    unsupported,
+  };
+}
+
+export async function generateMigration(
+  orm: BigQueryORM,
+  dataset: string,
+  migrationsPath: string,
+  name: string,
+  options: GenerateMigrationOptions = {}
+): Promise<GeneratedMigration> {
+  const { snapshotPath, language = "ts", dryRun = false } = options;
+  const models = orm.modelsIn(dataset);
+  const desired = modelSnapshot(models);
+  // Against the live dataset, tables without a model are left alone
+  const current = snapshotPath
+    ? readSnapshot(snapshotPath)
+    : await liveSnapshot(orm, dataset, Object.keys(desired));
+
+  const plan = planMigration(current, desired);
+  for (const change of plan.unsupported) {
+    orm.logger.warn(
+      `[MigrationGenerator:generateMigration] ${change.change} needs a manual migration: ${change.reason}`
+    );
+  }
+  if (!plan.up.length || dryRun) {
+    orm.logger.info(
+      `[MigrationGenerator:generateMigration] ${plan.up.length} statement(s) planned, nothing written`,
+      { dataset, dryRun }
+    );
+    return plan;
+  }
+
+  const file = path.resolve(
+    migrationsPath,
+    `${migrationTimestamp()}-${name}.${language}`
+  );
+  fs.mkdirSync(migrationsPath, { recursive: true });
+  fs.writeFileSync(file, renderMigrationFile(plan.up, plan.down, language));
+  if (snapshotPath) {
+    fs.writeFileSync(snapshotPath, JSON.stringify(desired, null, 2));
+  }
+  orm.logger.info(
+    `[MigrationGenerator:generateMigration] Wrote migration ${file}`,
+    { statements: plan.up.length, unsupported: plan.unsupported.length }
+  );
+  return { ...plan, file };
+}
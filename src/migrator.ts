@@ -0,0 +1,423 @@
+// src/migrator.ts
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BigQueryORM } from "./bigQueryORM";
+import { mergeSchema } from "./schemaDiff";
+
+export interface MigrationStatus {
+  name: string;
+  // "missing": recorded as executed but the file is gone
+  status: "executed" | "pending" | "missing";
+  executedAt: Date | null;
+  // The file changed after it was executed
+  checksumMismatch: boolean;
+}
+
+interface MigrationRecord {
+  name: string;
+  executedAt: Date;
+  // Null for migrations recorded before checksums were stored
+  checksum: string | null;
+}
+
+interface MigrationFile {
+  name: string;
+  file: string;
+  checksum: string;
+}
+
+interface MigrationStore {
+  prepare(): Promise<void>;
+  // Oldest first
+  executed(): Promise<MigrationRecord[]>;
+  record(name: string, checksum: string): Promise<void>;
+  remove(name: string): Promise<void>;
+  lock(owner: string): Promise<void>;
+  unlock(owner: string): Promise<void>;
+}
+
+const LOCK_ID = "migrations";
+
+// Tracks migrations in a meta table and serializes runs through a lock table
+class TableMigrationStore implements MigrationStore {
+  constructor(private orm: BigQueryORM, private dataset: string) {}
+
+  private get metaName(): string {
+    return this.orm.config.migrationsTable;
+  }
+
+  private get lockName(): string {
+    return `${this.metaName}_lock`;
+  }
+
+  private ref(name: string): string {
+    return `\`${this.orm.config.projectId}.${this.dataset}.${name}\``;
+  }
+
+  async prepare(): Promise<void> {
+    const ds = this.orm.bigquery.dataset(this.dataset);
+    const fields = [
+      { name: "name", type: "STRING" },
+      { name: "executed_at", type: "TIMESTAMP" },
+      { name: "checksum", type: "STRING" },
+    ];
+    const meta = ds.table(this.metaName);
+    const [metaExists] = await meta.exists();
+    if (!metaExists) {
+      await meta.create({ schema: fields });
+      this.orm.logger.info(
+        `[Migrator:prepare] Created ${this.metaName} table in dataset ${this.dataset}`
+      );
+    } else {
+      // Tables created by older versions have no checksum column
+      const [metadata] = await meta.getMetadata();
+      const live = metadata.schema?.fields || [];
+      if (!live.some((f: any) => f.name === "checksum")) {
+        const metadataUpdate: any = {
+          schema: { fields: mergeSchema(live, fields) },
+        };
+        await meta.setMetadata(metadataUpdate);
+      }
+    }
+
+    const lock = ds.table(this.lockName);
+    const [lockExists] = await lock.exists();
+    if (!lockExists) {
+      await lock.create({
+        schema: [
+          { name: "id", type: "STRING" },
+          { name: "owner", type: "STRING" },
+          { name: "acquired_at", type: "TIMESTAMP" },
+        ],
+      });
+    }
+  }
+
+  async executed(): Promise<MigrationRecord[]> {
+    const { rows } = await this.orm.runQuery({
+      query: `SELECT name, executed_at, checksum FROM ${this.ref(
+        this.metaName
+      )} ORDER BY executed_at ASC, name ASC`,
+    });
+    return rows.map((r: any) => ({
+      name: r.name,
+      executedAt: new Date(r.executed_at?.value ?? r.executed_at),
+      checksum: r.checksum ?? null,
+    }));
+  }
+
+  async record(name: string, checksum: string): Promise<void> {
+    await this.orm.runQuery({
+      query: `INSERT INTO ${this.ref(
+        this.metaName
+      )} (name, executed_at, checksum) VALUES (@name, CURRENT_TIMESTAMP(), @checksum)`,
+      params: { name, checksum },
+    });
+  }
+
+  async remove(name: string): Promise<void> {
+    await this.orm.runQuery({
+      query: `DELETE FROM ${this.ref(this.metaName)} WHERE name = @name`,
+      params: { name },
+    });
+  }
+
+  // Mutating DML on one table runs serially, so of two concurrent MERGEs
+  // only the first inserts the lock row. Locks older than the TTL are taken
+  // over so a crashed deploy does not block migrations forever.
+  async lock(owner: string): Promise<void> {
+    const { statistics } = await this.orm.runQuery(
+      {
+        query: `MERGE ${this.ref(this.lockName)} T
+          USING (SELECT @id AS id) S ON T.id = S.id
+          WHEN MATCHED AND T.acquired_at < TIMESTAMP_SUB(CURRENT_TIMESTAMP(), INTERVAL @ttl MILLISECOND) THEN
+            UPDATE SET owner = @owner, acquired_at = CURRENT_TIMESTAMP()
+          WHEN NOT MATCHED THEN
+            INSERT (id, owner, acquired_at) VALUES (@id, @owner, CURRENT_TIMESTAMP())`,
+        params: { id: LOCK_ID, owner, ttl: this.orm.config.migrationLockTtlMs },
+        types: { id: "STRING", owner: "STRING", ttl: "INT64" },
+      },
+      { withMetadata: true }
+    );
+    if (Number(statistics?.query?.numDmlAffectedRows || 0) === 1) return;
+
+    const { rows } = await this.orm.runQuery({
+      query: `SELECT owner, acquired_at FROM ${this.ref(
+        this.lockName
+      )} WHERE id = @id`,
+      params: { id: LOCK_ID },
+    });
+    const holder = rows[0];
+    throw new Error(
+      `Migrations in dataset ${this.dataset} are locked by ${
+        holder?.owner
+      } since ${holder?.acquired_at?.value ?? holder?.acquired_at}.`
+    );
+  }
+
+  async unlock(owner: string): Promise<void> {
+    await this.orm.runQuery({
+      query: `DELETE FROM ${this.ref(
+        this.lockName
+      )} WHERE id = @id AND owner = @owner`,
+      params: { id: LOCK_ID, owner },
+    });
+  }
+}
+
+// freeTierMode cannot run DML, so executed migrations are kept in a local
+// JSON file keyed by dataset, locked with an exclusively created lock file
+class FileMigrationStore implements MigrationStore {
+  constructor(private orm: BigQueryORM, private dataset: string) {}
+
+  private get filePath(): string {
+    return this.orm.config.migrationsStatePath;
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.${this.dataset}.lock`;
+  }
+
+  private readAll(): Record<string, any[]> {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+  }
+
+  private write(records: MigrationRecord[]): void {
+    const all = this.readAll();
+    all[this.dataset] = records;
+    fs.writeFileSync(this.filePath, JSON.stringify(all, null, 2));
+  }
+
+  async prepare(): Promise<void> {}
+
+  async executed(): Promise<MigrationRecord[]> {
+    return (this.readAll()[this.dataset] || []).map((r) => ({
+      ...r,
+      executedAt: new Date(r.executedAt),
+    }));
+  }
+
+  async record(name: string, checksum: string): Promise<void> {
+    const records = await this.executed();
+    records.push({ name, executedAt: new Date(), checksum });
+    this.write(records);
+  }
+
+  async remove(name: string): Promise<void> {
+    this.write((await this.executed()).filter((r) => r.name !== name));
+  }
+
+  async lock(owner: string): Promise<void> {
+    if (fs.existsSync(this.lockPath)) {
+      const age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+      if (age > this.orm.config.migrationLockTtlMs) {
+        fs.unlinkSync(this.lockPath);
+      }
+    }
+    try {
+      fs.writeFileSync(this.lockPath, owner, { flag: "wx" });
+    } catch (err: any) {
+      if (err.code !== "EEXIST") throw err;
+      throw new Error(
+        `Migrations in dataset ${this.dataset} are locked by ${fs.readFileSync(
+          this.lockPath,
+          "utf8"
+        )}.`
+      );
+    }
+  }
+
+  async unlock(owner: string): Promise<void> {
+    if (
+      fs.existsSync(this.lockPath) &&
+      fs.readFileSync(this.lockPath, "utf8") === owner
+    ) {
+      fs.unlinkSync(this.lockPath);
+    }
+  }
+}
+
+export class Migrator {
+  private store: MigrationStore;
+  private owner = `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+
+  constructor(
+    private orm: BigQueryORM,
+    private dataset: string,
+    private migrationsPath: string
+  ) {
+    this.store = orm.config.freeTierMode
+      ? new FileMigrationStore(orm, dataset)
+      : new TableMigrationStore(orm, dataset);
+  }
+
+  private files(): MigrationFile[] {
+    return fs
+      .readdirSync(this.migrationsPath)
+      .filter(
+        (f) => !f.endsWith(".d.ts") && (f.endsWith(".ts") || f.endsWith(".js"))
+      )
+      .sort()
+      .map((file) => ({
+        name: path.basename(file, path.extname(file)),
+        file,
+        checksum: crypto
+          .createHash("sha256")
+          .update(fs.readFileSync(path.resolve(this.migrationsPath, file)))
+          .digest("hex"),
+      }));
+  }
+
+  private async load(file: MigrationFile): Promise<any> {
+    const migrationModule = await import(
+      path.resolve(this.migrationsPath, file.file)
+    );
+    return migrationModule.default || migrationModule;
+  }
+
+  private async prepare(): Promise<void> {
+    const ds = this.orm.bigquery.dataset(this.dataset);
+    const [dsExists] = await ds.exists();
+    if (!dsExists) {
+      await ds.create();
+      this.orm.logger.info(
+        `[Migrator:prepare] Created dataset ${this.dataset}`
+      );
+    }
+    await this.store.prepare();
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.prepare();
+    await this.store.lock(this.owner);
+    this.orm.logger.info(
+      `[Migrator:withLock] Acquired migration lock for dataset ${this.dataset}`,
+      { owner: this.owner }
+    );
+    try {
+      return await fn();
+    } finally {
+      await this.store.unlock(this.owner);
+    }
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    await this.prepare();
+    const files = this.files();
+    const executed = await this.store.executed();
+    const byName = new Map(executed.map((r) => [r.name, r]));
+    const statuses: MigrationStatus[] = files.map((file) => {
+      const record = byName.get(file.name);
+      return {
+        name: file.name,
+        status: record ? "executed" : "pending",
+        executedAt: record?.executedAt || null,
+        checksumMismatch:
+          !!record?.checksum && record.checksum !== file.checksum,
+      };
+    });
+    const fileNames = new Set(files.map((f) => f.name));
+    for (const record of executed.filter((r) => !fileNames.has(r.name))) {
+      statuses.push({
+        name: record.name,
+        status: "missing",
+        executedAt: record.executedAt,
+        checksumMismatch: false,
+      });
+    }
+    return statuses;
+  }
+
+  // Runs every pending migration in file name order
+  async up(): Promise<string[]> {
+    return this.withLock(async () => {
+      const files = this.files();
+      const executed = new Map(
+        (await this.store.executed()).map((r) => [r.name, r])
+      );
+      const edited = files.filter((f) => {
+        const checksum = executed.get(f.name)?.checksum;
+        return checksum && checksum !== f.checksum;
+      });
+      if (edited.length) {
+        const names = edited.map((f) => f.name).join(", ");
+        this.orm.logger.error(
+          `[Migrator:up] Executed migrations were modified: ${names}`
+        );
+        throw new Error(
+          `Executed migrations were modified after they ran: ${names}. Revert them or restore the original files.`
+        );
+      }
+
+      const ran: string[] = [];
+      for (const file of files) {
+        if (executed.has(file.name)) {
+          this.orm.logger.info(
+            `[Migrator:up] Skipping migration ${file.name} (already executed)`
+          );
+          continue;
+        }
+        const migration = await this.load(file);
+        await migration.up(
+          this.orm.getQueryInterface(),
+          this.orm,
+          this.dataset
+        );
+        await this.store.record(file.name, file.checksum);
+        ran.push(file.name);
+        this.orm.logger.info(
+          `[Migrator:up] Migration ${file.name} executed and recorded in dataset ${this.dataset}`
+        );
+      }
+      return ran;
+    });
+  }
+
+  // Reverts executed migrations newest first, either `step` of them or all
+  // of them down to and including `to`
+  async down(options: { step?: number; to?: string } = {}): Promise<string[]> {
+    return this.withLock(async () => {
+      const executed = (await this.store.executed()).reverse();
+      let targets = executed;
+      if (options.to !== undefined) {
+        const index = executed.findIndex((r) => r.name === options.to);
+        if (index === -1) {
+          this.orm.logger.error(
+            `[Migrator:down] Migration ${options.to} has not been executed`
+          );
+          throw new Error(`Migration ${options.to} has not been executed.`);
+        }
+        targets = executed.slice(0, index + 1);
+      } else if (options.step !== undefined) {
+        targets = executed.slice(0, options.step);
+      }
+
+      const files = new Map(this.files().map((f) => [f.name, f]));
+      const reverted: string[] = [];
+      for (const record of targets) {
+        const file = files.get(record.name);
+        if (!file) {
+          this.orm.logger.error("[Migrator:down] Migration file not found", {
+            migrationName: record.name,
+          });
+          throw new Error(`Migration file not found: ${record.name}`);
+        }
+        const migration = await this.load(file);
+        await migration.down(
+          this.orm.getQueryInterface(),
+          this.orm,
+          this.dataset
+        );
+        await this.store.remove(record.name);
+        reverted.push(record.name);
+        this.orm.logger.info(
+          `[Migrator:down] Reverted migration ${record.name} in dataset ${this.dataset}`
+        );
+      }
+      return reverted;
+    });
+  }
+}
@@ -1,33 +1,168 @@
 // src/model.ts
 import { BigQuery } from "@google-cloud/bigquery";
-import { BigQueryORM } from "./bigQueryORM";
+import { BigQueryORM, QueryEstimate } from "./bigQueryORM";
 import { Op, Operator } from "./op";
 import { DataType, DataTypes } from "./dataTypes";
-import { buildWhereClause } from "./utils";
+import {
+  buildWhereClause,
+  dataTypeToParamType,
+  serializeParamValue,
+} from "./utils";
+import { Transaction } from "./transaction";
+import { HookFunction, Hooks, ModelHookName } from "./hooks";
+import { validateRecord, ValidationError } from "./validation";
+import { deserializeRows } from "./deserialize";
+import { QueryStats, toQueryStats } from "./queryStats";
+import { TableOptions, validateTableOptions } from "./tableOptions";
 import * as crypto from "crypto";
 
-export interface WhereOptions {
-  [key: string]: any | { [key in Operator]?: any } | WhereOptions[];
+// Types carried by models from define<TAttributes, ...>(); type-level only
+export interface ModelTypes<T = any, C = T, A = any> {
+  attributes: T;
+  creation: C;
+  // Include `as` name -> type of the nested property
+  associations: A;
 }
 
-export interface IncludeOptions {
-  model: typeof Model;
-  as?: string;
-  where?: WhereOptions;
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Keys that may be omitted on create: nullable or optional attributes
+type OptionalKeys<T> = {
+  [K in keyof T]-?: null extends T[K] ? K : undefined extends T[K] ? K : never;
+}[keyof T];
+
+export type CreationAttributes<T> = IsAny<T> extends true
+  ? Record<string, any>
+  : Omit<T, OptionalKeys<T>> & Partial<Pick<T, OptionalKeys<T>>>;
+
+export type ModelStatic<
+  T = any,
+  C = CreationAttributes<T>,
+  A = {}
+> = typeof Model & { readonly __types: ModelTypes<T, C, A> };
+
+export type AttributesOf<M> = M extends {
+  readonly __types: ModelTypes<infer T extends Record<string, any>, any, any>;
+}
+  ? T
+  : any;
+
+export type CreationAttributesOf<M> = M extends {
+  readonly __types: ModelTypes<any, infer C, any>;
+}
+  ? C
+  : Record<string, any>;
+
+export type AssociationsOf<M> = M extends {
+  readonly __types: ModelTypes<any, any, infer A>;
+}
+  ? A
+  : any;
+
+// Column names; plain `string` for untyped models
+export type AttributeName<T> = Extract<keyof T, string>;
+
+type AssociationName<A> = [keyof A] extends [never]
+  ? string
+  : Extract<keyof A, string>;
+
+// Model methods plus the typed attribute accessors
+export type ModelInstance<T extends Record<string, any> = any> = Model<T> & T;
+
+export type InstanceOf<M> = ModelInstance<AttributesOf<M>>;
+
+type ElementOf<V> = V extends readonly (infer E)[] ? E : V;
+
+type OperatorValue<V, K extends Operator> = K extends "eq" | "ne"
+  ? V | null
+  : K extends "like" | "notLike"
+  ? string
+  : K extends "in" | "notIn" | "any" | "all"
+  ? V[]
+  : K extends "between" | "notBetween"
+  ? [V, V]
+  : K extends "is" | "isNot"
+  ? null | boolean
+  : K extends "not"
+  ? V | V[] | null | boolean | WhereOperators<V>
+  : K extends "and" | "or"
+  ? (V | WhereOperators<V>)[] | WhereOperators<V>
+  : K extends "contains"
+  ? ElementOf<V> | ElementOf<V>[]
+  : K extends "contained"
+  ? ElementOf<V>[]
+  : V;
+
+type WhereOperator = Exclude<Operator, "add">;
+
+// `{ gt: 1 }` or `{ [Op.gt]: 1 }`
+export type WhereOperators<V = any> = {
+  [K in WhereOperator]?: OperatorValue<V, K>;
+} & {
+  [K in WhereOperator as (typeof Op)[K]]?: OperatorValue<V, K>;
+};
+
+// An array of values is shorthand for IN, except on ARRAY columns
+export type WhereValue<V = any> =
+  | V
+  | null
+  | WhereOperators<V>
+  | (V extends readonly any[] ? never : V[]);
+
+type WhereGroup<T> = WhereOptions<T>[] | WhereOptions<T>;
+
+export type WhereOptions<T = any> = {
+  [K in AttributeName<T>]?: WhereValue<T[K]>;
+} & {
+  // Dotted paths address STRUCT fields
+  [K in `${AttributeName<T>}.${string}`]?: any;
+} & {
+  and?: WhereGroup<T>;
+  or?: WhereGroup<T>;
+  not?: WhereGroup<T>;
+  [Op.and]?: WhereGroup<T>;
+  [Op.or]?: WhereGroup<T>;
+  [Op.not]?: WhereGroup<T>;
+};
+
+export interface IncludeOptions<
+  M extends typeof Model = typeof Model,
+  K extends string = string
+> {
+  model: M;
+  as?: K;
+  where?: WhereOptions<AttributesOf<M>>;
   required?: boolean;
-  attributes?: string[];
+  attributes?: AttributeName<AttributesOf<M>>[];
 }
 
-export interface FindOptions {
-  attributes?: string[];
-  where?: WhereOptions;
-  include?: IncludeOptions[];
-  order?: [string, "ASC" | "DESC"][];
-  group?: string[];
+export interface FindOptions<T = any, A = any> {
+  attributes?: AttributeName<T>[];
+  where?: WhereOptions<T>;
+  include?: IncludeOptions<typeof Model, AssociationName<A>>[];
+  order?: [AttributeName<T>, "ASC" | "DESC"][];
+  group?: AttributeName<T>[];
   limit?: number;
   offset?: number;
   raw?: boolean;
   distinct?: boolean;
+  transaction?: Transaction;
+  hooks?: boolean;
+  // Dry-run before running; see BigQueryORMConfig.dryRunFirst
+  dryRunFirst?: boolean;
+  // Per-query byte cap overriding BigQueryORMConfig.maximumBytesBilled
+  maximumBytesBilled?: number | null;
+  // Also return the job's query plan and statistics
+  includeStats?: boolean;
+  // false includes soft-deleted rows of paranoid models
+  paranoid?: boolean;
+}
+
+export interface FindStreamOptions<T = any, A = any> extends FindOptions<T, A> {
+  // Rows fetched per result page
+  pageSize?: number;
+  // Aborting stops the iteration and cancels the query job
+  signal?: AbortSignal;
 }
 
 export interface Association {
@@ -39,56 +174,556 @@ export interface Association {
   through?: typeof Model;
 }
 
-export interface FindAndCountAllResult {
-  rows: any[];
+export interface ModelOptions extends TableOptions {
+  tableName?: string;
+  primaryKey?: string;
+  // Where the table lives when a call passes no dataset; defaults to the
+  // ORM's defaultDataset and projectId
+  dataset?: string;
+  projectId?: string;
+  // destroy() sets a deletedAt TIMESTAMP instead of deleting rows, and
+  // finders skip rows where it is set
+  paranoid?: boolean;
+  // Column name for paranoid models (default: deletedAt)
+  deletedAt?: string;
+  // Adds createdAt/updatedAt columns, set on insert and updatedAt on update
+  timestamps?: boolean;
+  // Column names, or false to leave one out
+  createdAt?: string | false;
+  updatedAt?: string | false;
+  // BigQuery type of the timestamp columns (default: TIMESTAMP)
+  timestampType?: "TIMESTAMP" | "DATETIME";
+  // Applied to finders, count, aggregates, update and destroy unless the
+  // model is unscoped() or scoped explicitly
+  defaultScope?: FindOptions;
+  scopes?: Record<string, ScopeDefinition>;
+}
+
+// Find options, or a function of the scope's arguments returning them
+export type ScopeDefinition<T = any, A = any> =
+  | FindOptions<T, A>
+  | ((...args: any[]) => FindOptions<T, A>);
+
+// `"active"`, or `{ method: ["forRegion", "EU"] }` for a function scope
+export type ScopeName = string | { method: [name: string, ...args: any[]] };
+
+export interface FindAndCountAllResult<R = any> {
+  rows: R[];
   count: number;
+  stats?: QueryStats;
+}
+
+export interface FindAllWithStatsResult<R = any> {
+  rows: R[];
+  stats: QueryStats;
+}
+
+type IncludeList<M> = IncludeOptions<
+  typeof Model,
+  AssociationName<AssociationsOf<M>>
+>[];
+
+// Finder options of model M. `I` and `R` capture the includes and `raw`
+// flag so the result type can follow them.
+export type ModelFindOptions<M, I = IncludeList<M>, R = boolean> = FindOptions<
+  AttributesOf<M>,
+  AssociationsOf<M>
+> & {
+  include?: I;
+  raw?: R;
+};
+
+export type ModelFindStreamOptions<
+  M,
+  I = IncludeList<M>,
+  R = boolean
+> = ModelFindOptions<M, I, R> & Pick<FindStreamOptions, "pageSize" | "signal">;
+
+type IncludedNames<I> = I extends readonly (infer E)[]
+  ? E extends { as: infer K }
+    ? K
+    : never
+  : never;
+
+// Row type of a finder: instances (plain rows with raw) plus the nested
+// properties of the included associations
+export type FindResult<M, I = [], R = false> = (R extends true
+  ? AttributesOf<M>
+  : InstanceOf<M>) &
+  Pick<AssociationsOf<M>, Extract<IncludedNames<I>, keyof AssociationsOf<M>>>;
+
+// Static method arguments, optionally led by a dataset that overrides the
+// model's dataset and the ORM's defaultDataset
+export type DatasetArgs<A extends any[]> = A | [dataset: string, ...args: A];
+
+export interface ExplainResult extends QueryStats {
+  sql: string;
+  params: Record<string, any>;
+}
+
+export interface CreateOptions {
+  transaction?: Transaction;
+  hooks?: boolean;
 }
 
 export interface BulkCreateOptions {
   validate?: boolean;
   ignoreDuplicates?: boolean;
   returning?: boolean;
+  transaction?: Transaction;
+  hooks?: boolean;
 }
 
-export interface UpdateOptions {
-  where: WhereOptions;
+export interface UpdateOptions<T = any> {
+  where: WhereOptions<T>;
   returning?: boolean;
+  // Load matching rows and save them one by one so instance hooks run
   individualHooks?: boolean;
+  transaction?: Transaction;
+  hooks?: boolean;
 }
 
-export interface DestroyOptions {
-  where: WhereOptions;
+export interface DestroyOptions<T = any> {
+  where: WhereOptions<T>;
+  // Delete the rows of a paranoid model instead of setting deletedAt
   force?: boolean;
   cascade?: boolean;
+  individualHooks?: boolean;
+  transaction?: Transaction;
+  hooks?: boolean;
+}
+
+export interface UpsertOptions<T = any> {
+  // Columns matched against existing rows; defaults to the primary key
+  conflictFields?: AttributeName<T>[];
+  // Columns overwritten on match; defaults to every provided non-conflict column
+  updateFields?: AttributeName<T>[];
+  transaction?: Transaction;
+  hooks?: boolean;
+}
+
+export interface IncrementOptions<T = any> {
+  by?: number;
+  where: WhereOptions<T>;
+  transaction?: Transaction;
+}
+
+export interface RestoreOptions<T = any> {
+  where: WhereOptions<T>;
+  transaction?: Transaction;
 }
 
-export abstract class Model {
+export interface BuildOptions {
+  dataset?: string;
+  isNewRecord?: boolean;
+}
+
+export interface InstanceSaveOptions {
+  dataset?: string;
+  transaction?: Transaction;
+  // Restrict the save to these attributes
+  fields?: string[];
+  hooks?: boolean;
+}
+
+export interface InstanceOptions {
+  dataset?: string;
+  transaction?: Transaction;
+  hooks?: boolean;
+}
+
+function mergeWhere(a?: WhereOptions, b?: WhereOptions) {
+  return a && b ? { and: [a, b] } : b || a;
+}
+
+// Includes of the same association are joined once: wheres are ANDed,
+// attributes combined and the include is required if either one is
+function mergeIncludes(
+  base: IncludeOptions[],
+  extra: IncludeOptions[]
+): IncludeOptions[] {
+  const merged = [...base];
+  for (const inc of extra) {
+    const as = inc.as || inc.model.tableName;
+    const index = merged.findIndex((m) => (m.as || m.model.tableName) === as);
+    if (index < 0) {
+      merged.push(inc);
+      continue;
+    }
+    const existing = merged[index];
+    merged[index] = {
+      ...existing,
+      ...inc,
+      where: mergeWhere(existing.where, inc.where),
+      attributes:
+        existing.attributes && inc.attributes
+          ? Array.from(new Set([...existing.attributes, ...inc.attributes]))
+          : undefined,
+      required: existing.required || inc.required,
+    };
+  }
+  return merged;
+}
+
+// Later options win, except that wheres are ANDed and includes merged
+function mergeFindOptions(base: FindOptions, extra: FindOptions): FindOptions {
+  const merged: FindOptions = { ...base };
+  for (const [key, value] of Object.entries(extra)) {
+    if (value !== undefined) (merged as any)[key] = value;
+  }
+  merged.where = mergeWhere(base.where, extra.where);
+  if (base.include && extra.include) {
+    merged.include = mergeIncludes(base.include, extra.include);
+  }
+  return merged;
+}
+
+// Map key for a deserialized primary key; Dates and decimal objects are
+// distinct instances per row, so they are keyed by value
+function valueKey(value: any): any {
+  if (value instanceof Date) return value.getTime();
+  return value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : value;
+}
+
+// Writes an attribute or association value without T's key checks
+function setDataValue(instance: Model, field: string, value: any): void {
+  instance.dataValues[field] = value;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (a && b && typeof a === "object" && typeof b === "object") {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+// T types the instance's attribute values; its accessors are exposed on
+// ModelInstance<T>
+export class Model<T extends Record<string, any> = any> {
   static orm: BigQueryORM;
   static tableName: string;
+  static dataset?: string;
+  static projectId?: string;
   static primaryKey: string = "id";
+  static paranoid = false;
+  static deletedAt = "deletedAt";
+  // Timestamp columns; unset when the model has no timestamps
+  static createdAt?: string;
+  static updatedAt?: string;
   static attributes: Record<string, DataType>;
+  static tableOptions: TableOptions = {};
   static associations: Record<string, Association> = {};
   static associate?: (models: Record<string, typeof Model>) => void;
+  static hooks: Hooks<ModelHookName> = new Hooks();
+  private static scopes: Record<string, ScopeDefinition> = {};
+  // Set on the models scope() and unscoped() return: the model they were
+  // made from and the options they apply in place of its default scope
+  private static scoped?: { model: typeof Model; options: FindOptions };
 
   static init(
     attributes: Record<string, DataType>,
-    options: { orm: BigQueryORM; tableName?: string; primaryKey?: string }
+    options: ModelOptions & { orm: BigQueryORM }
   ) {
     this.orm = options.orm;
     this.orm.logger.info(
       `[Model:init] Starting initialization for model: ${this.name}`
     );
+    this.paranoid = !!options.paranoid;
+    this.deletedAt = options.deletedAt || "deletedAt";
+    if (this.paranoid && !attributes[this.deletedAt]) {
+      attributes = { ...attributes, [this.deletedAt]: DataTypes.DATE() };
+    }
+    attributes = this.addTimestamps(attributes, options);
     this.attributes = attributes;
+    this.hooks = new Hooks();
+    // Own map, so subclasses do not share the base class's associations
+    this.associations = {};
+    this.scopes = { ...options.scopes };
+    if (options.defaultScope) this.scopes.defaultScope = options.defaultScope;
     this.tableName = options.tableName || this.name.toLowerCase();
+    this.dataset = options.dataset;
+    this.projectId = options.projectId;
     this.primaryKey =
       options.primaryKey ||
       Object.keys(attributes).find((key) => attributes[key].primaryKey) ||
       "id";
+    const {
+      orm,
+      tableName,
+      primaryKey,
+      dataset,
+      projectId,
+      paranoid,
+      deletedAt,
+      timestamps,
+      createdAt,
+      updatedAt,
+      timestampType,
+      defaultScope,
+      scopes,
+      ...tableOptions
+    } = options;
+    validateTableOptions(tableOptions);
+    this.tableOptions = tableOptions;
+    for (const field of Object.keys(attributes)) {
+      this.defineAccessor(field);
+    }
     this.orm.logger.info(
       `[Model:init] Initialization complete for model: ${this.name}`
     );
   }
 
+  // The dataset a call uses: its explicit argument, else the model's, else
+  // the current tenant's, else the ORM's defaultDataset
+  static datasetFor(dataset?: string): string {
+    const resolved =
+      dataset ||
+      this.dataset ||
+      this.orm.currentTenant()?.dataset ||
+      this.orm.config.defaultDataset;
+    if (!resolved) {
+      this.orm.logger.error(
+        `[Model:datasetFor] No dataset for ${this.name}; pass one or set defaultDataset`
+      );
+      throw new Error(
+        `No dataset for ${this.name}; pass one, set the model's dataset or the ORM's defaultDataset.`
+      );
+    }
+    return resolved;
+  }
+
+  // `project.dataset.table`, for use inside backticks
+  static tablePath(dataset?: string): string {
+    return `${this.projectId || this.orm.config.projectId}.${this.datasetFor(
+      dataset
+    )}.${this.tableName}`;
+  }
+
+  // Condition excluding soft-deleted rows; empty for models that are not
+  // paranoid or when `paranoid` is false
+  private static deletedFilter(alias?: string, paranoid?: boolean): string {
+    if (!this.paranoid || paranoid === false) return "";
+    const column = alias
+      ? `\`${alias}\`.\`${this.deletedAt}\``
+      : `\`${this.deletedAt}\``;
+    return `${column} IS NULL`;
+  }
+
+  // Appended to the ON condition of a join, so LEFT JOINs keep their rows
+  private static joinDeleted(alias: string, paranoid?: boolean): string {
+    const filter = this.deletedFilter(alias, paranoid);
+    return filter ? ` AND ${filter}` : "";
+  }
+
+  // WHERE condition for UPDATE/DELETE statements, skipping soft-deleted rows
+  private static dmlWhere(clause: string): string {
+    return (
+      [clause && `(${clause})`, this.deletedFilter()]
+        .filter(Boolean)
+        .join(" AND ") || "TRUE"
+    );
+  }
+
+  // Included models with their own dataset are read from it; the others
+  // from the dataset of the query they are joined into
+  private static includedTablePath(model: typeof Model, dataset: string) {
+    return model.tablePath(model.dataset || dataset);
+  }
+
+  // Splits the optional leading dataset off a static method's arguments and
+  // resolves it with datasetFor. `positional` counts the arguments before
+  // options that may be strings themselves (a primary key or field name);
+  // for those the dataset is recognised by the argument count.
+  private static datasetArgs<A extends any[]>(
+    args: any[],
+    positional = 0
+  ): [string, ...A] {
+    const [first, ...rest] = args;
+    let hasDataset = typeof first === "string";
+    if (hasDataset && positional) {
+      const next = args[positional];
+      hasDataset =
+        args.length > positional + 1 ||
+        (args.length === positional + 1 &&
+          next !== undefined &&
+          (typeof next !== "object" || Array.isArray(next)));
+    }
+    return (
+      hasDataset
+        ? [this.datasetFor(first), ...rest]
+        : [this.datasetFor(), ...args]
+    ) as [string, ...A];
+  }
+
+  // Adds the timestamp columns with a NOW default, which fills them on
+  // insert; an attribute with the same name keeps its type
+  private static addTimestamps(
+    attributes: Record<string, DataType>,
+    options: ModelOptions
+  ): Record<string, DataType> {
+    const column = (name: string | false | undefined, fallback: string) =>
+      options.timestamps && name !== false ? name || fallback : undefined;
+    this.createdAt = column(options.createdAt, "createdAt");
+    this.updatedAt = column(options.updatedAt, "updatedAt");
+    const result = { ...attributes };
+    for (const name of [this.createdAt, this.updatedAt]) {
+      if (!name) continue;
+      const type =
+        result[name] ||
+        (options.timestampType === "DATETIME"
+          ? DataTypes.DATETIME()
+          : DataTypes.DATE());
+      result[name] = {
+        ...type,
+        defaultValue:
+          type.defaultValue ??
+          (type.type === "DATETIME" ? DataTypes.NOW_DATETIME : DataTypes.NOW),
+      };
+    }
+    return result;
+  }
+
+  // SET clause stamping updatedAt in UPDATE statements, unless `data` sets it
+  private static touchUpdatedAt(data: Record<string, any> = {}): string[] {
+    const column = this.updatedAt;
+    if (!column || column in data) return [];
+    const now =
+      this.attributes[column].type === "DATETIME"
+        ? "CURRENT_DATETIME()"
+        : "CURRENT_TIMESTAMP()";
+    return [`\`${column}\` = ${now}`];
+  }
+
+  static addHook(name: ModelHookName, fn: HookFunction) {
+    this.orm.logger.info(
+      `[Model:addHook] Registered ${name} hook for ${this.name}`
+    );
+    this.hooks.add(name, fn);
+  }
+
+  static removeHook(name: ModelHookName, fn?: HookFunction) {
+    this.hooks.remove(name, fn);
+  }
+
+  // Registers a named scope; "defaultScope" replaces the default scope
+  static addScope<M extends typeof Model>(
+    this: M,
+    name: string,
+    scope: ScopeDefinition<AttributesOf<M>, AssociationsOf<M>>,
+    options: { override?: boolean } = {}
+  ): void {
+    const model = this.scoped?.model || this;
+    if (model.scopes[name] && name !== "defaultScope" && !options.override) {
+      model.orm.logger.error(
+        `[Model:addScope] Scope ${name} already exists for ${model.name}`
+      );
+      throw new Error(
+        `Scope ${name} already exists for ${model.name}; pass { override: true } to replace it.`
+      );
+    }
+    model.scopes[name] = scope;
+    model.orm.logger.info(
+      `[Model:addScope] Added scope ${name} for ${model.name}`
+    );
+  }
+
+  // A model whose queries apply the named scopes, merged in order, instead
+  // of the default scope (name "defaultScope" to keep it)
+  static scope<M extends typeof Model>(this: M, ...names: ScopeName[]): M {
+    const model = this.scoped?.model || this;
+    let options: FindOptions = {};
+    for (const name of names) {
+      const [scopeName, ...scopeArgs] =
+        typeof name === "string" ? [name] : name.method;
+      const scope = model.scopes[scopeName];
+      if (!scope) {
+        model.orm.logger.error(
+          `[Model:scope] Scope ${scopeName} not found for ${model.name}`
+        );
+        throw new Error(`Scope ${scopeName} not found for ${model.name}.`);
+      }
+      options = mergeFindOptions(
+        options,
+        typeof scope === "function" ? scope(...scopeArgs) : scope
+      );
+    }
+    return model.withScope(options) as M;
+  }
+
+  // A model without any scope, including the default one
+  static unscoped<M extends typeof Model>(this: M): M {
+    return (this.scoped?.model || this).withScope({}) as M;
+  }
+
+  // Subclass sharing the model's table, attributes, associations and hooks
+  private static withScope(options: FindOptions): typeof Model {
+    const scoped = class extends this {};
+    Object.defineProperty(scoped, "name", { value: this.name });
+    scoped.scoped = { model: this, options };
+    return scoped;
+  }
+
+  // Options of the active scope: the explicit one, else the default scope
+  private static scopeOptions(): FindOptions {
+    if (this.scoped) return this.scoped.options;
+    const scope = this.scopes.defaultScope;
+    return (typeof scope === "function" ? scope() : scope) || {};
+  }
+
+  // `where` of a bulk update/destroy, narrowed by the active scope
+  private static scopedWhere(where?: WhereOptions): WhereOptions | undefined {
+    return mergeFindOptions(this.scopeOptions(), { where }).where;
+  }
+
+  // Merges the active scope and runs beforeFind on a copy, so hooks can add
+  // filters without mutating the caller's options. Counts and aggregates
+  // take only the scope's filters, not its order or paging.
+  private static async prepareFind(
+    options: FindOptions,
+    aggregate = false
+  ): Promise<FindOptions> {
+    const scope = this.scopeOptions();
+    const { order, limit, offset, ...filters } = scope;
+    const prepared = mergeFindOptions(aggregate ? filters : scope, options);
+    if (prepared.hooks !== false) {
+      await this.hooks.run("beforeFind", prepared);
+    }
+    return prepared;
+  }
+
+  private static defineAccessor(key: string) {
+    if (key in Model.prototype) {
+      this.orm.logger.warn(
+        `[Model:defineAccessor] ${this.name}.${key} shadows an instance method; use get("${key}") instead`
+      );
+      return;
+    }
+    Object.defineProperty(this.prototype, key, {
+      get(this: Model) {
+        return this.get(key);
+      },
+      set(this: Model, value: any) {
+        this.set(key, value);
+      },
+      configurable: true,
+    });
+  }
+
+  static build<M extends typeof Model>(
+    this: M,
+    values?: Partial<AttributesOf<M>>,
+    options?: BuildOptions
+  ): InstanceOf<M>;
+  static build(values: Record<string, any> = {}, options: BuildOptions = {}) {
+    return new this(values, options);
+  }
+
   static belongsTo(
     target: typeof Model,
     options: { foreignKey?: string; as?: string } = {}
@@ -98,7 +733,9 @@ export abstract class Model {
     this.associations[as] = { type: "belongsTo", target, foreignKey, as };
     if (!this.attributes[foreignKey]) {
       this.attributes[foreignKey] = DataTypes.INTEGER();
+      this.defineAccessor(foreignKey);
     }
+    this.defineAccessor(as);
     this.orm.logger.info(
       `[Model:belongsTo] Set up belongsTo ${this.name} -> ${target.name}`
     );
@@ -111,6 +748,7 @@ export abstract class Model {
     const foreignKey = options.foreignKey || `${this.name.toLowerCase()}Id`;
     const as = options.as || target.name.toLowerCase();
     this.associations[as] = { type: "hasOne", target, foreignKey, as };
+    this.defineAccessor(as);
     this.orm.logger.info(
       `[Model:hasOne] Set up hasOne ${this.name} -> ${target.name}`
     );
@@ -123,6 +761,7 @@ export abstract class Model {
     const foreignKey = options.foreignKey || `${this.name.toLowerCase()}Id`;
     const as = options.as || `${target.name.toLowerCase()}s`;
     this.associations[as] = { type: "hasMany", target, foreignKey, as };
+    this.defineAccessor(as);
     this.orm.logger.info(
       `[Model:hasMany] Set up hasMany ${this.name} -> ${target.name}`
     );
@@ -148,16 +787,68 @@ export abstract class Model {
       through: options.through,
       as,
     };
+    this.defineAccessor(as);
     this.orm.logger.info(
       `[Model:belongsToMany] Set up belongsToMany ${this.name} -> ${target.name}`
     );
   }
 
-  static async findAll(
+  static findAll<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<
+      [options: ModelFindOptions<M, I, R> & { includeStats: true }]
+    >
+  ): Promise<FindAllWithStatsResult<FindResult<M, I, R>>>;
+  static findAll<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<[options?: ModelFindOptions<M, I, R>]>
+  ): Promise<FindResult<M, I, R>[]>;
+  static async findAll(...args: any[]): Promise<any> {
+    const [dataset, options = {}] = this.datasetArgs<[FindOptions?]>(args);
+    const { rows, stats } = await this.runFind(dataset, options);
+    return options.includeStats ? { rows, stats } : rows;
+  }
+
+  // Runs the findAll query and returns its plan and job statistics. The
+  // query really runs (and is billed); use estimate() for a dry run.
+  static explain<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<ExplainResult>;
+  static async explain(...args: any[]): Promise<ExplainResult> {
+    const [dataset, options = {}] = this.datasetArgs<[FindOptions?]>(args);
+    const { sql, params, stats } = await this.runFind(dataset, {
+      ...options,
+      includeStats: true,
+    });
+    this.orm.logger.info(
+      `[Model:explain] Query for ${this.name} processed ${stats?.totalBytesProcessed} bytes`,
+      { sql, stats }
+    );
+    return { sql, params, ...(stats as QueryStats) };
+  }
+
+  private static async runFind(
     dataset: string,
-    options: FindOptions = {}
-  ): Promise<any[]> {
-    const { sql, params } = this.buildSelectQuery(dataset, options);
+    options: FindOptions
+  ): Promise<{
+    rows: any[];
+    stats?: QueryStats;
+    sql: string;
+    params: Record<string, any>;
+  }> {
+    options = await this.prepareFind(options);
+    const { sql, params, types } = this.buildSelectQuery(dataset, options);
     this.orm.logger.info(
       `[Model:findAll] Executing query for ${this.name} in dataset ${dataset}`,
       {
@@ -165,39 +856,202 @@ export abstract class Model {
         params,
       }
     );
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
+    const { rows, stats } = await this.selectRows(
+      { query: sql, params, types },
+      this.resultColumns(options.include || []),
+      options
+    );
     const result = options.raw
       ? rows
-      : this.nestAssociations(rows, options.include || []);
+      : this.hydrate(
+          this.nestAssociations(rows, options.include || []),
+          options.include || [],
+          dataset
+        );
+    if (options.hooks !== false) {
+      await this.hooks.run("afterFind", result, options);
+    }
     this.orm.logger.info(
       `[Model:findAll] Found ${result.length} records for ${this.name} in dataset ${dataset}`
     );
-    return result;
+    return { rows: result, stats, sql, params };
   }
 
-  static async findOne(
-    dataset: string,
-    options: FindOptions = {}
-  ): Promise<any | null> {
+  // Yields matching records page by page instead of buffering the whole
+  // result set. With includes, rows are also ordered by primary key so that
+  // a record's joined rows stay together across page boundaries.
+  static findAllStream<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<[options?: ModelFindStreamOptions<M, I, R>]>
+  ): AsyncGenerator<FindResult<M, I, R>, void, undefined>;
+  static async *findAllStream(
+    ...args: any[]
+  ): AsyncGenerator<any, void, undefined> {
+    let [dataset, options = {}] = this.datasetArgs<[FindStreamOptions?]>(args);
+    options = await this.prepareFind(options);
+    const includes = options.include || [];
+    const order = options.order || [];
+    if (includes.length && !order.some(([f]) => f === this.primaryKey)) {
+      options = { ...options, order: [...order, [this.primaryKey, "ASC"]] };
+    }
+    const { sql, params, types } = this.buildSelectQuery(dataset, options);
+    this.orm.logger.info(
+      `[Model:findAllStream] Streaming query for ${this.name} in dataset ${dataset}`,
+      { sql, params, pageSize: options.pageSize }
+    );
+
+    const deserialize = this.orm.config.deserialize;
+    const columns = this.resultColumns(includes);
+    const pkColumn = `${this.tableName}_${this.primaryKey}`;
+    const toRecords = async (rows: any[]) => {
+      const result = options.raw
+        ? rows
+        : this.hydrate(
+            this.nestAssociations(rows, includes),
+            includes,
+            dataset
+          );
+      if (options.hooks !== false) {
+        await this.hooks.run("afterFind", result, options);
+      }
+      return result;
+    };
+
+    const pages = this.orm.streamQuery(
+      { query: sql, params, types },
+      {
+        transaction: options.transaction,
+        dryRunFirst: options.dryRunFirst,
+        maximumBytesBilled: options.maximumBytesBilled,
+        pageSize: options.pageSize,
+        signal: options.signal,
+        wrapIntegers: deserialize.enabled !== false,
+      }
+    );
+    let carry: any[] = [];
+    let yielded = 0;
+    for await (const page of pages) {
+      let rows = carry.concat(deserializeRows(page, columns, deserialize));
+      carry = [];
+      if (includes.length && !options.raw) {
+        // The last record may continue on the next page
+        const lastPk = rows[rows.length - 1][pkColumn];
+        let split = rows.length;
+        while (split > 0 && valuesEqual(rows[split - 1][pkColumn], lastPk)) {
+          split--;
+        }
+        carry = rows.slice(split);
+        rows = rows.slice(0, split);
+      }
+      for (const record of await toRecords(rows)) {
+        if (options.signal?.aborted) throw new Error("Query was cancelled");
+        yielded++;
+        yield record;
+      }
+    }
+    if (carry.length) {
+      for (const record of await toRecords(carry)) {
+        if (options.signal?.aborted) throw new Error("Query was cancelled");
+        yielded++;
+        yield record;
+      }
+    }
+    this.orm.logger.info(
+      `[Model:findAllStream] Streamed ${yielded} records for ${this.name} in dataset ${dataset}`
+    );
+  }
+
+  // Alias of findAllStream for `for await (const user of User.iterate(...))`
+  static iterate<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<[options?: ModelFindStreamOptions<M, I, R>]>
+  ): AsyncGenerator<FindResult<M, I, R>, void, undefined>;
+  static iterate(...args: any[]): AsyncGenerator<any, void, undefined> {
+    const [dataset, options = {}] =
+      this.datasetArgs<[FindStreamOptions?]>(args);
+    return this.findAllStream(dataset, options);
+  }
+
+  // Dry-runs the query findAll would run and reports its size and cost
+  static estimate<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<QueryEstimate>;
+  static async estimate(...args: any[]): Promise<QueryEstimate> {
+    let [dataset, options = {}] = this.datasetArgs<[FindOptions?]>(args);
+    options = await this.prepareFind(options);
+    const { sql, params, types } = this.buildSelectQuery(dataset, options);
+    const estimate = await this.orm.estimateQuery(
+      { query: sql, params, types },
+      { transaction: options.transaction }
+    );
+    this.orm.logger.info(
+      `[Model:estimate] Query for ${this.name} in dataset ${dataset} would process ${estimate.totalBytesProcessed} bytes`,
+      estimate
+    );
+    return estimate;
+  }
+
+  static findOne<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<
+      [options: ModelFindOptions<M, I, R> & { includeStats: true }]
+    >
+  ): Promise<{ row: FindResult<M, I, R> | null; stats: QueryStats }>;
+  static findOne<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<[options?: ModelFindOptions<M, I, R>]>
+  ): Promise<FindResult<M, I, R> | null>;
+  static async findOne(...args: any[]): Promise<any | null> {
+    const [dataset, options = {}] = this.datasetArgs<[FindOptions?]>(args);
     this.orm.logger.info(
       `[Model:findOne] Finding one record for ${this.name} in dataset ${dataset}`,
       { options }
     );
-    const results = await this.findAll(dataset, { ...options, limit: 1 });
-    const result = results[0] || null;
+    const { rows, stats } = await this.runFind(dataset, {
+      ...options,
+      limit: 1,
+    });
+    const result = rows[0] || null;
     this.orm.logger.info(
       `[Model:findOne] Found record: ${result ? "yes" : "no"} for ${
         this.name
       } in dataset ${dataset}`
     );
-    return result;
+    return options.includeStats ? { row: result, stats } : result;
   }
 
-  static async findByPk(
-    dataset: string,
-    pk: any,
-    options: FindOptions = {}
-  ): Promise<any | null> {
+  static findByPk<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<[pk: any, options?: ModelFindOptions<M, I, R>]>
+  ): Promise<FindResult<M, I, R> | null>;
+  static async findByPk(...args: any[]): Promise<any | null> {
+    const [dataset, pk, options = {}] = this.datasetArgs<[any, FindOptions?]>(
+      args,
+      1
+    );
     this.orm.logger.info(
       `[Model:findByPk] Finding by PK for ${this.name} in dataset ${dataset}`,
       {
@@ -211,19 +1065,28 @@ export abstract class Model {
     });
   }
 
-  static async findAndCountAll(
-    dataset: string,
-    options: FindOptions = {}
-  ): Promise<FindAndCountAllResult> {
+  static findAndCountAll<
+    M extends typeof Model,
+    I extends IncludeList<M> = [],
+    R extends boolean = false
+  >(
+    this: M,
+    ...args: DatasetArgs<[options?: ModelFindOptions<M, I, R>]>
+  ): Promise<FindAndCountAllResult<FindResult<M, I, R>>>;
+  static async findAndCountAll(...args: any[]): Promise<FindAndCountAllResult> {
+    let [dataset, options = {}] = this.datasetArgs<[FindOptions?]>(args);
     this.orm.logger.info(
       `[Model:findAndCountAll] Finding and counting records for ${this.name} in dataset ${dataset}`,
       { options }
     );
+    options = await this.prepareFind(options);
 
     const mainAlias = this.tableName;
     const selectClause: string[] = [];
     const params: Record<string, any> = {};
-    let sql = `FROM \`${dataset}.${this.tableName}\` AS \`${mainAlias}\``;
+    const types: Record<string, any> = {};
+    let paramIndex = 0;
+    let sql = `FROM \`${this.tablePath(dataset)}\` AS \`${mainAlias}\``;
     const whereClauses: string[] = [];
 
     // Build main select clause
@@ -249,28 +1112,55 @@ export abstract class Model {
 
         if (assoc.type === "belongsTo") {
           joinOn = `\`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON ${joinOn}${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         } else if (assoc.type === "hasOne" || assoc.type === "hasMany") {
           joinOn = `\`${mainAlias}\`.\`${this.primaryKey}\` = \`${as}\`.\`${assoc.foreignKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON ${joinOn}${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         } else if (assoc.type === "belongsToMany") {
           if (!assoc.through || !assoc.otherKey)
             throw new Error(
               "Through model and otherKey required for belongsToMany"
             );
           const throughAs = `${as}_through`;
-          const throughTable = assoc.through.tableName;
+          const throughTable = this.includedTablePath(assoc.through, dataset);
           joinOn = `\`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${throughAs}\`.\`${assoc.foreignKey}\``;
-          sql += ` ${joinType} \`${dataset}.${throughTable}\` AS \`${throughAs}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${throughTable}\` AS \`${throughAs}\` ON ${joinOn}`;
           joinOn = `\`${throughAs}\`.\`${assoc.otherKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON ${joinOn}${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         }
 
         if (inc.where) {
-          const { clause, params: incParams } = buildWhereClause(inc.where);
-          const prefixedClause = clause.replace(/`([^`]+)`/g, `\`${as}\`.$1`);
-          whereClauses.push(prefixedClause);
+          const {
+            clause,
+            params: incParams,
+            types: incTypes,
+            nextIndex,
+          } = buildWhereClause(inc.where, {}, paramIndex, {
+            alias: as,
+            attributes: inc.model.attributes,
+          });
+          paramIndex = nextIndex;
+          if (clause) whereClauses.push(clause);
           Object.assign(params, incParams);
+          Object.assign(types, incTypes);
         }
 
         // Include attributes + primary key
@@ -286,10 +1176,20 @@ export abstract class Model {
 
     // Main WHERE
     if (options.where) {
-      const { clause, params: mParams } = buildWhereClause(options.where);
+      const {
+        clause,
+        params: mParams,
+        types: mTypes,
+      } = buildWhereClause(options.where, {}, paramIndex, {
+        alias: mainAlias,
+        attributes: this.attributes,
+      });
       if (clause) whereClauses.push(clause);
       Object.assign(params, mParams);
+      Object.assign(types, mTypes);
     }
+    const deleted = this.deletedFilter(mainAlias, options.paranoid);
+    if (deleted) whereClauses.push(deleted);
 
     const whereClause = whereClauses.length
       ? ` WHERE ${whereClauses.join(" AND ")}`
@@ -300,7 +1200,9 @@ export abstract class Model {
     const countSelect = options.distinct
       ? `COUNT(DISTINCT \`${mainAlias}\`.\`${this.primaryKey}\`)`
       : `COUNT(*)`;
-    let countSql = `SELECT ${countSelect} AS total_count FROM \`${dataset}.${this.tableName}\` AS \`${mainAlias}\``;
+    let countSql = `SELECT ${countSelect} AS total_count FROM \`${this.tablePath(
+      dataset
+    )}\` AS \`${mainAlias}\``;
     if (options.include) {
       for (const inc of options.include) {
         const as = inc.as || inc.model.tableName;
@@ -310,14 +1212,38 @@ export abstract class Model {
         if (!assoc) continue;
         const joinType = inc.required ? "INNER JOIN" : "LEFT OUTER JOIN";
         if (assoc.type === "belongsTo") {
-          countSql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON \`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
+          countSql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON \`${mainAlias}\`.\`${
+            assoc.foreignKey
+          }\` = \`${as}\`.\`${inc.model.primaryKey}\`${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         } else if (assoc.type === "hasOne" || assoc.type === "hasMany") {
-          countSql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON \`${mainAlias}\`.\`${this.primaryKey}\` = \`${as}\`.\`${assoc.foreignKey}\``;
+          countSql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON \`${mainAlias}\`.\`${
+            this.primaryKey
+          }\` = \`${as}\`.\`${assoc.foreignKey}\`${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         } else if (assoc.type === "belongsToMany") {
           const throughAs = `${as}_through`;
-          const throughTable = assoc.through?.tableName;
-          countSql += ` ${joinType} \`${dataset}.${throughTable}\` AS \`${throughAs}\` ON \`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${throughAs}\`.\`${assoc.foreignKey}\``;
-          countSql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON \`${throughAs}\`.\`${assoc.otherKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
+          const throughTable = this.includedTablePath(assoc.through!, dataset);
+          countSql += ` ${joinType} \`${throughTable}\` AS \`${throughAs}\` ON \`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${throughAs}\`.\`${assoc.foreignKey}\``;
+          countSql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON \`${throughAs}\`.\`${
+            assoc.otherKey
+          }\` = \`${as}\`.\`${inc.model.primaryKey}\`${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         }
       }
     }
@@ -350,43 +1276,74 @@ export abstract class Model {
       params,
     });
 
-    const [rows] = await this.orm.bigquery.query({ query: finalSql, params });
+    const { rows, stats } = await this.selectRows(
+      { query: finalSql, params, types },
+      this.resultColumns(options.include || []),
+      options
+    );
     const resultRows = options.raw
       ? rows
-      : this.nestAssociations(rows, options.include || []);
-    const count = rows[0]?.total_count || 0;
+      : this.hydrate(
+          this.nestAssociations(rows, options.include || []),
+          options.include || [],
+          dataset
+        );
+    const count = Number(rows[0]?.total_count || 0);
+    if (options.hooks !== false) {
+      await this.hooks.run("afterFind", resultRows, options);
+    }
 
     this.orm.logger.info(
       `[Model:findAndCountAll] Found ${resultRows.length} rows with total count ${count}`
     );
-    return { rows: resultRows, count };
+    return options.includeStats
+      ? { rows: resultRows, count, stats }
+      : { rows: resultRows, count };
   }
 
-  static async count(
-    dataset: string,
-    options: FindOptions = {}
-  ): Promise<number> {
+  static count<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<number>;
+  static async count(...args: any[]): Promise<number> {
+    let [dataset, options = {}] = this.datasetArgs<[FindOptions?]>(args);
     this.orm.logger.info(
       `[Model:count] Counting records for ${this.name} in dataset ${dataset}`,
       {
         options,
       }
     );
+    options = await this.prepareFind(options, true);
     const select = `COUNT(DISTINCT \`${this.tableName}\`.\`${this.primaryKey}\`) AS count`;
-    const { sql, params } = this.buildSelectQuery(dataset, options, select);
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
-    const count = rows[0]?.count || 0;
+    const { sql, params, types } = this.buildSelectQuery(
+      dataset,
+      options,
+      select
+    );
+    const { rows } = await this.selectRows(
+      { query: sql, params, types },
+      {},
+      options
+    );
+    const count = Number(rows[0]?.count || 0);
     this.orm.logger.info(
       `[Model:count] Counted ${count} records for ${this.name} in dataset ${dataset}`
     );
     return count;
   }
 
-  static async max(
-    dataset: string,
-    field: string,
-    options: FindOptions = {}
-  ): Promise<number | null> {
+  static max<M extends typeof Model, K extends AttributeName<AttributesOf<M>>>(
+    this: M,
+    ...args: DatasetArgs<
+      [field: K, options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<AttributesOf<M>[K] | null>;
+  static async max(...args: any[]): Promise<any> {
+    let [dataset, field, options = {}] = this.datasetArgs<
+      [string, FindOptions?]
+    >(args, 1);
     this.orm.logger.info(
       `[Model:max] Getting max value for field ${field} in ${this.name} in dataset ${dataset}`,
       {
@@ -394,21 +1351,35 @@ export abstract class Model {
         options,
       }
     );
+    options = await this.prepareFind(options, true);
     const select = `MAX(\`${this.tableName}\`.\`${field}\`) AS max_value`;
-    const { sql, params } = this.buildSelectQuery(dataset, options, select);
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
-    const maxValue = rows[0]?.max_value || null;
+    const { sql, params, types } = this.buildSelectQuery(
+      dataset,
+      options,
+      select
+    );
+    const { rows } = await this.selectRows(
+      { query: sql, params, types },
+      { max_value: this.aggregateType(field, "max") },
+      options
+    );
+    const maxValue = rows[0]?.max_value ?? null;
     this.orm.logger.info(
       `[Model:max] Max value for ${field}: ${maxValue} in ${this.name} in dataset ${dataset}`
     );
     return maxValue;
   }
 
-  static async min(
-    dataset: string,
-    field: string,
-    options: FindOptions = {}
-  ): Promise<number | null> {
+  static min<M extends typeof Model, K extends AttributeName<AttributesOf<M>>>(
+    this: M,
+    ...args: DatasetArgs<
+      [field: K, options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<AttributesOf<M>[K] | null>;
+  static async min(...args: any[]): Promise<any> {
+    let [dataset, field, options = {}] = this.datasetArgs<
+      [string, FindOptions?]
+    >(args, 1);
     this.orm.logger.info(
       `[Model:min] Getting min value for field ${field} in ${this.name} in dataset ${dataset}`,
       {
@@ -416,21 +1387,35 @@ export abstract class Model {
         options,
       }
     );
+    options = await this.prepareFind(options, true);
     const select = `MIN(\`${this.tableName}\`.\`${field}\`) AS min_value`;
-    const { sql, params } = this.buildSelectQuery(dataset, options, select);
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
-    const minValue = rows[0]?.min_value || null;
+    const { sql, params, types } = this.buildSelectQuery(
+      dataset,
+      options,
+      select
+    );
+    const { rows } = await this.selectRows(
+      { query: sql, params, types },
+      { min_value: this.aggregateType(field, "min") },
+      options
+    );
+    const minValue = rows[0]?.min_value ?? null;
     this.orm.logger.info(
       `[Model:min] Min value for ${field}: ${minValue} in ${this.name} in dataset ${dataset}`
     );
     return minValue;
   }
 
-  static async sum(
-    dataset: string,
-    field: string,
-    options: FindOptions = {}
-  ): Promise<number> {
+  static sum<M extends typeof Model, K extends AttributeName<AttributesOf<M>>>(
+    this: M,
+    ...args: DatasetArgs<
+      [field: K, options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<any>;
+  static async sum(...args: any[]): Promise<any> {
+    let [dataset, field, options = {}] = this.datasetArgs<
+      [string, FindOptions?]
+    >(args, 1);
     this.orm.logger.info(
       `[Model:sum] Getting sum for field ${field} in ${this.name} in dataset ${dataset}`,
       {
@@ -438,21 +1423,38 @@ export abstract class Model {
         options,
       }
     );
+    options = await this.prepareFind(options, true);
     const select = `SUM(\`${this.tableName}\`.\`${field}\`) AS sum_value`;
-    const { sql, params } = this.buildSelectQuery(dataset, options, select);
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
-    const sumValue = rows[0]?.sum_value || 0;
+    const { sql, params, types } = this.buildSelectQuery(
+      dataset,
+      options,
+      select
+    );
+    const { rows } = await this.selectRows(
+      { query: sql, params, types },
+      { sum_value: this.aggregateType(field, "sum") },
+      options
+    );
+    const sumValue = rows[0]?.sum_value ?? 0;
     this.orm.logger.info(
       `[Model:sum] Sum for ${field}: ${sumValue} in ${this.name} in dataset ${dataset}`
     );
     return sumValue;
   }
 
-  static async average(
-    dataset: string,
-    field: string,
-    options: FindOptions = {}
-  ): Promise<number | null> {
+  static average<
+    M extends typeof Model,
+    K extends AttributeName<AttributesOf<M>>
+  >(
+    this: M,
+    ...args: DatasetArgs<
+      [field: K, options?: FindOptions<AttributesOf<M>, AssociationsOf<M>>]
+    >
+  ): Promise<any>;
+  static async average(...args: any[]): Promise<any> {
+    let [dataset, field, options = {}] = this.datasetArgs<
+      [string, FindOptions?]
+    >(args, 1);
     this.orm.logger.info(
       `[Model:average] Getting average for field ${field} in ${this.name} in dataset ${dataset}`,
       {
@@ -460,16 +1462,80 @@ export abstract class Model {
         options,
       }
     );
+    options = await this.prepareFind(options, true);
     const select = `AVG(\`${this.tableName}\`.\`${field}\`) AS avg_value`;
-    const { sql, params } = this.buildSelectQuery(dataset, options, select);
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
-    const avgValue = rows[0]?.avg_value || null;
+    const { sql, params, types } = this.buildSelectQuery(
+      dataset,
+      options,
+      select
+    );
+    const { rows } = await this.selectRows(
+      { query: sql, params, types },
+      { avg_value: this.aggregateType(field, "avg") },
+      options
+    );
+    const avgValue = rows[0]?.avg_value ?? null;
     this.orm.logger.info(
       `[Model:average] Average for ${field}: ${avgValue} in ${this.name} in dataset ${dataset}`
     );
     return avgValue;
   }
 
+  // Runs a SELECT and converts result values to native JS types
+  private static async selectRows(
+    query: {
+      query: string;
+      params: Record<string, any>;
+      types: Record<string, any>;
+    },
+    columns: Record<string, DataType | undefined>,
+    options: FindOptions
+  ): Promise<{ rows: any[]; stats?: QueryStats }> {
+    const deserialize = this.orm.config.deserialize;
+    const { rows, jobId, statistics } = await this.orm.runQuery(query, {
+      transaction: options.transaction,
+      dryRunFirst: options.dryRunFirst,
+      maximumBytesBilled: options.maximumBytesBilled,
+      wrapIntegers: deserialize.enabled !== false,
+      withMetadata: options.includeStats,
+    });
+    return {
+      rows: deserializeRows(rows, columns, deserialize),
+      stats: options.includeStats ? toQueryStats(jobId, statistics) : undefined,
+    };
+  }
+
+  // Attribute types keyed by the aliased columns buildSelectQuery emits
+  private static resultColumns(
+    includes: IncludeOptions[]
+  ): Record<string, DataType> {
+    const columns: Record<string, DataType> = {};
+    for (const [field, dt] of Object.entries(this.attributes)) {
+      columns[`${this.tableName}_${field}`] = dt;
+    }
+    for (const inc of includes) {
+      const as = inc.as || inc.model.tableName;
+      for (const [field, dt] of Object.entries(inc.model.attributes)) {
+        columns[`${as}_${field}`] = dt;
+      }
+    }
+    return columns;
+  }
+
+  // Result type of an aggregate over a column; SUM and AVG only keep the
+  // decimal types exact
+  private static aggregateType(
+    field: string,
+    fn: "max" | "min" | "sum" | "avg"
+  ): DataType | undefined {
+    const dt = this.attributes[field];
+    if (!dt) return undefined;
+    if (fn === "max" || fn === "min") return dt;
+    if (["NUMERIC", "DECIMAL", "BIGNUMERIC"].includes(dt.type)) return dt;
+    if (fn === "sum" && dt.type === "INT64") return dt;
+    return { type: "FLOAT64" };
+  }
+
   private static resolveDefault(value: any): any {
     if (value === DataTypes.NOW || value === "CURRENT_TIMESTAMP()") {
       return new Date();
@@ -488,7 +1554,8 @@ export abstract class Model {
   // Add this helper method to the Model class
   private static async checkForDuplicatePrimaryKeys(
     dataset: string,
-    primaryKeyValues: any[]
+    primaryKeyValues: any[],
+    transaction?: Transaction
   ): Promise<Set<any>> {
     if (!primaryKeyValues.length) return new Set();
 
@@ -498,30 +1565,101 @@ export abstract class Model {
     );
 
     const paramNames = primaryKeyValues.map((_, index) => `@pk${index}`);
-    const params = primaryKeyValues.reduce((acc, value, index) => {
-      acc[`pk${index}`] = value;
-      return acc;
-    }, {} as Record<string, any>);
+    const params: Record<string, any> = {};
+    const types: Record<string, any> = {};
+    const pkType = dataTypeToParamType(this.attributes[this.primaryKey]);
+    primaryKeyValues.forEach((value, index) => {
+      params[`pk${index}`] = value;
+      types[`pk${index}`] = pkType;
+    });
 
-    const sql = `SELECT \`${this.primaryKey}\` FROM \`${dataset}.${
-      this.tableName
-    }\` 
+    const sql = `SELECT \`${this.primaryKey}\` FROM \`${this.tablePath(
+      dataset
+    )}\` 
                WHERE \`${this.primaryKey}\` IN (${paramNames.join(", ")})`;
 
-    const [rows] = await this.orm.bigquery.query({ query: sql, params });
+    const { rows } = await this.orm.runQuery(
+      { query: sql, params, types },
+      { transaction: transaction }
+    );
     return new Set(rows.map((row: any) => row[this.primaryKey]));
   }
 
-  // Update the create method
-  static async create(
+  // Streaming inserts bypass sessions, so rows written inside a transaction
+  // go through a DML INSERT instead
+  private static async insertRows(
     dataset: string,
-    data: Record<string, any>
-  ): Promise<any> {
+    rows: Record<string, any>[],
+    transaction?: Transaction
+  ): Promise<void> {
+    if (!transaction) {
+      const table = this.orm.bigquery
+        .dataset(dataset, { projectId: this.projectId })
+        .table(this.tableName);
+      await table.insert(serializeParamValue(rows));
+      return;
+    }
+
+    const columns = Object.keys(this.attributes).filter((field) =>
+      rows.some((row) => row[field] !== undefined && row[field] !== null)
+    );
+    const params: Record<string, any> = {};
+    const types: Record<string, any> = {};
+    const values = rows.map((row, rowIndex) => {
+      const placeholders = columns.map((field, colIndex) => {
+        const value = row[field];
+        if (value === undefined || value === null) return "NULL";
+        const paramName = `r${rowIndex}_c${colIndex}`;
+        params[paramName] = value;
+        types[paramName] = dataTypeToParamType(this.attributes[field]);
+        return `@${paramName}`;
+      });
+      return `(${placeholders.join(", ")})`;
+    });
+    const sql = `INSERT INTO \`${this.tablePath(dataset)}\` (${columns
+      .map((c) => `\`${c}\``)
+      .join(", ")}) VALUES ${values.join(", ")}`;
+    await this.runDml(sql, params, transaction, types);
+  }
+
+  private static async runDml(
+    sql: string,
+    params: Record<string, any>,
+    transaction?: Transaction,
+    types?: Record<string, any>
+  ): Promise<number> {
+    const { statistics } = await this.orm.runQuery(
+      { query: sql, params, types },
+      { transaction, withMetadata: true }
+    );
+    return Number(statistics?.query?.numDmlAffectedRows || 0);
+  }
+
+  // Update the create method
+  static create<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [data: CreationAttributesOf<M>, options?: CreateOptions]
+    >
+  ): Promise<InstanceOf<M>>;
+  static async create(...args: any[]): Promise<any> {
+    const [dataset, data, options = {}] =
+      this.datasetArgs<[Record<string, any>, CreateOptions?]>(args);
     this.orm.logger.info(
       `[Model:create] Creating record for ${this.name} in dataset ${dataset}`,
       { data }
     );
 
+    const instance = this.build(data, { dataset });
+    await this.insertInstance(dataset, instance, options);
+    return instance;
+  }
+
+  private static async insertInstance(
+    dataset: string,
+    instance: Model,
+    options: CreateOptions
+  ): Promise<void> {
     if (this.orm.config.freeTierMode) {
       this.orm.logger.error(
         "[Model:create] Free tier mode: CREATE (INSERT) not allowed."
@@ -529,26 +1667,28 @@ export abstract class Model {
       throw new Error("Free tier mode: CREATE (INSERT) not allowed.");
     }
 
+    if (options.hooks !== false) {
+      await this.hooks.run("beforeCreate", instance, options);
+    }
+    const data = instance.dataValues;
     const filledData: Record<string, any> = {};
     for (const [field, attr] of Object.entries(this.attributes)) {
       if (field in data) {
         filledData[field] = data[field];
       } else if (attr.defaultValue !== undefined) {
         filledData[field] = this.resolveDefault(attr.defaultValue);
-      } else if (attr.allowNull === false) {
-        this.orm.logger.error(
-          `[Model:create] Missing required field ${field} for ${this.name} in dataset ${dataset}`
-        );
-        throw new Error(`Missing required field ${field}`);
       }
     }
+    this.validate(filledData);
 
     // Check for duplicate primary key
     const primaryKeyValue = filledData[this.primaryKey];
     if (primaryKeyValue !== undefined && primaryKeyValue !== null) {
-      const existingKeys = await this.checkForDuplicatePrimaryKeys(dataset, [
-        primaryKeyValue,
-      ]);
+      const existingKeys = await this.checkForDuplicatePrimaryKeys(
+        dataset,
+        [primaryKeyValue],
+        options.transaction
+      );
       if (existingKeys.has(primaryKeyValue)) {
         this.orm.logger.error(
           `[Model:create] Duplicate primary key ${this.primaryKey}=${primaryKeyValue} for ${this.name} in dataset ${dataset}`
@@ -557,20 +1697,29 @@ export abstract class Model {
       }
     }
 
-    const table = this.orm.bigquery.dataset(dataset).table(this.tableName);
-    await table.insert([filledData]);
+    await this.insertRows(dataset, [filledData], options.transaction);
+    Object.assign(instance.dataValues, filledData);
+    instance.isNewRecord = false;
+    instance._dataset = dataset;
+    instance.resetChanges();
     this.orm.logger.info(
       `[Model:create] Record created for ${this.name} in dataset ${dataset}`
     );
-    return filledData;
+    if (options.hooks !== false) {
+      await this.hooks.run("afterCreate", instance, options);
+    }
   }
 
   // Update the bulkCreate method
-  static async bulkCreate(
-    dataset: string,
-    data: Record<string, any>[],
-    options: BulkCreateOptions = {}
-  ): Promise<any[]> {
+  static bulkCreate<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [data: CreationAttributesOf<M>[], options?: BulkCreateOptions]
+    >
+  ): Promise<InstanceOf<M>[]>;
+  static async bulkCreate(...args: any[]): Promise<any[]> {
+    let [dataset, data, options = {}] =
+      this.datasetArgs<[Record<string, any>[], BulkCreateOptions?]>(args);
     this.orm.logger.info(
       `[Model:bulkCreate] Creating ${data.length} records for ${this.name} in dataset ${dataset}`
     );
@@ -587,6 +1736,11 @@ export abstract class Model {
       return [];
     }
 
+    if (options.hooks !== false) {
+      data = data.map((record) => ({ ...record }));
+      await this.hooks.run("beforeBulkCreate", data, options);
+    }
+
     const filledData = data.map((record) => {
       const filled: Record<string, any> = {};
       for (const [field, attr] of Object.entries(this.attributes)) {
@@ -594,18 +1748,53 @@ export abstract class Model {
           filled[field] = record[field];
         } else if (attr.defaultValue !== undefined) {
           filled[field] = this.resolveDefault(attr.defaultValue);
-        } else if (attr.allowNull === false && options.validate !== false) {
-          this.orm.logger.error(
-            `[Model:bulkCreate] Missing required field ${field} in bulk create record for ${this.name} in dataset ${dataset}`
-          );
-          throw new Error(
-            `Missing required field ${field} in bulk create record`
-          );
         }
       }
       return filled;
     });
 
+    if (options.validate !== false) {
+      const errors = filledData.flatMap((record, index) =>
+        validateRecord(this.attributes, record).map((e) => ({
+          ...e,
+          path: `[${index}].${e.path}`,
+        }))
+      );
+      if (errors.length) {
+        this.orm.logger.error(
+          `[Model:bulkCreate] Validation failed for ${errors.length} field(s) in bulk create records for ${this.name} in dataset ${dataset}`
+        );
+        throw new ValidationError(errors);
+      }
+    }
+
+    if (options.ignoreDuplicates) {
+      // Insert only rows whose primary key is not already present, in one
+      // MERGE instead of a lookup followed by a streaming insert
+      const seen = new Set<any>();
+      const uniqueRows = filledData.filter((record) => {
+        const keyValue = record[this.primaryKey];
+        if (keyValue === undefined || keyValue === null) return true;
+        if (seen.has(keyValue)) return false;
+        seen.add(keyValue);
+        return true;
+      });
+      const inserted = await this.mergeRows(dataset, uniqueRows, {
+        conflictFields: [this.primaryKey],
+        updateFields: [],
+        transaction: options.transaction,
+      });
+      this.orm.logger.info(
+        `[Model:bulkCreate] ${inserted} of ${filledData.length} records created for ${this.name} in dataset ${dataset} (duplicates ignored)`
+      );
+      if (options.hooks !== false) {
+        await this.hooks.run("afterBulkCreate", uniqueRows, options);
+      }
+      return options.returning
+        ? uniqueRows.map((r) => this.build(r, { dataset, isNewRecord: false }))
+        : [];
+    }
+
     // Check for duplicate primary keys in batch
     const primaryKeyValues = filledData
       .map((record) => record[this.primaryKey])
@@ -614,7 +1803,8 @@ export abstract class Model {
     if (primaryKeyValues.length > 0) {
       const existingKeys = await this.checkForDuplicatePrimaryKeys(
         dataset,
-        primaryKeyValues
+        primaryKeyValues,
+        options.transaction
       );
 
       // Check for duplicates within the current batch
@@ -659,15 +1849,18 @@ export abstract class Model {
       }
     }
 
-    const table = this.orm.bigquery.dataset(dataset).table(this.tableName);
-
     // Use batch insertion with error handling
     try {
-      await table.insert(filledData);
+      await this.insertRows(dataset, filledData, options.transaction);
       this.orm.logger.info(
         `[Model:bulkCreate] ${filledData.length} records created for ${this.name} in dataset ${dataset}`
       );
-      return options.returning ? filledData : [];
+      if (options.hooks !== false) {
+        await this.hooks.run("afterBulkCreate", filledData, options);
+      }
+      return options.returning
+        ? filledData.map((r) => this.build(r, { dataset, isNewRecord: false }))
+        : [];
     } catch (error: any) {
       // Handle potential race condition where duplicates might still occur
       if (
@@ -684,11 +1877,213 @@ export abstract class Model {
       throw error;
     }
   }
-  static async update(
+
+  static upsert<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [
+        record: CreationAttributesOf<M>,
+        options?: UpsertOptions<AttributesOf<M>>
+      ]
+    >
+  ): Promise<InstanceOf<M>>;
+  static async upsert(...args: any[]): Promise<any> {
+    const [dataset, record, options = {}] =
+      this.datasetArgs<[Record<string, any>, UpsertOptions?]>(args);
+    this.orm.logger.info(
+      `[Model:upsert] Upserting record for ${this.name} in dataset ${dataset}`,
+      { record, options }
+    );
+    const { rows } = await this.runUpsert(dataset, [record], options);
+    return this.build(rows[0], { dataset, isNewRecord: false });
+  }
+
+  static bulkUpsert<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [
+        records: CreationAttributesOf<M>[],
+        options?: UpsertOptions<AttributesOf<M>>
+      ]
+    >
+  ): Promise<number>;
+  static async bulkUpsert(...args: any[]): Promise<number> {
+    const [dataset, records, options = {}] =
+      this.datasetArgs<[Record<string, any>[], UpsertOptions?]>(args);
+    this.orm.logger.info(
+      `[Model:bulkUpsert] Upserting ${records.length} records for ${this.name} in dataset ${dataset}`,
+      { options }
+    );
+    if (!records.length) {
+      this.orm.logger.info("[Model:bulkUpsert] No records to upsert, skipping");
+      return 0;
+    }
+    const { affectedRows } = await this.runUpsert(dataset, records, options);
+    return affectedRows;
+  }
+
+  // Throws a ValidationError listing every invalid field. With `partial`,
+  // only the attributes present in `values` are checked.
+  static validate(
+    values: Record<string, any>,
+    options: { partial?: boolean } = {}
+  ): void {
+    const errors = validateRecord(this.attributes, values, options);
+    if (errors.length) {
+      this.orm.logger.error(
+        `[Model:validate] Validation failed for ${this.name}`,
+        { errors: errors.map((e) => `${e.path}: ${e.message}`) }
+      );
+      throw new ValidationError(errors);
+    }
+  }
+
+  private static async runUpsert(
+    dataset: string,
+    records: Record<string, any>[],
+    options: UpsertOptions
+  ): Promise<{ rows: Record<string, any>[]; affectedRows: number }> {
+    if (this.orm.config.freeTierMode) {
+      this.orm.logger.error(
+        "[Model:upsert] Free tier mode: UPSERT (MERGE) not allowed."
+      );
+      throw new Error("Free tier mode: UPSERT (MERGE) not allowed.");
+    }
+
+    if (options.hooks !== false) {
+      records = records.map((record) => ({ ...record }));
+      await this.hooks.run("beforeUpsert", records, options);
+    }
+
+    const conflictFields = options.conflictFields || [this.primaryKey];
+    for (const field of conflictFields) {
+      if (!this.attributes[field]) {
+        throw new Error(`Unknown conflict field ${field} for ${this.name}`);
+      }
+    }
+
+    // Only columns the caller provided are overwritten on match, so defaults
+    // such as createdAt are applied to inserted rows alone
+    const providedFields = new Set<string>();
+    const filledData = records.map((record) => {
+      const filled: Record<string, any> = {};
+      for (const [field, attr] of Object.entries(this.attributes)) {
+        if (field in record) {
+          filled[field] = record[field];
+          providedFields.add(field);
+        } else if (attr.defaultValue !== undefined) {
+          filled[field] = this.resolveDefault(attr.defaultValue);
+        }
+      }
+      this.validate(filled);
+      for (const field of conflictFields) {
+        if (filled[field] === undefined || filled[field] === null) {
+          throw new Error(`Missing conflict field ${field} for upsert`);
+        }
+      }
+      return filled;
+    });
+
+    // MERGE fails when two source rows match the same target row
+    const batchKeys = new Set<string>();
+    for (const record of filledData) {
+      const key = JSON.stringify(conflictFields.map((f) => record[f]));
+      if (batchKeys.has(key)) {
+        this.orm.logger.error(
+          `[Model:upsert] Duplicate conflict key ${key} within batch for ${this.name}`
+        );
+        throw new Error(`Duplicate conflict key within batch: ${key}`);
+      }
+      batchKeys.add(key);
+    }
+
+    const updateFields = options.updateFields
+      ? [...options.updateFields]
+      : Array.from(providedFields).filter((f) => !conflictFields.includes(f));
+    // Filled by its default, so matched rows get the current time
+    if (
+      this.updatedAt &&
+      updateFields.length &&
+      !updateFields.includes(this.updatedAt)
+    ) {
+      updateFields.push(this.updatedAt);
+    }
+
+    const affectedRows = await this.mergeRows(dataset, filledData, {
+      conflictFields,
+      updateFields,
+      transaction: options.transaction,
+    });
+    this.orm.logger.info(
+      `[Model:upsert] Merged ${affectedRows} records for ${this.name} in dataset ${dataset}`
+    );
+    if (options.hooks !== false) {
+      await this.hooks.run("afterUpsert", filledData, options);
+    }
+    return { rows: filledData, affectedRows };
+  }
+
+  // Stages rows as an ARRAY<STRUCT> parameter and merges them in a single
+  // statement keyed on conflictFields
+  private static async mergeRows(
     dataset: string,
-    data: Record<string, any>,
-    options: UpdateOptions
+    rows: Record<string, any>[],
+    options: {
+      conflictFields: string[];
+      updateFields: string[];
+      transaction?: Transaction;
+    }
   ): Promise<number> {
+    if (!rows.length) return 0;
+    const columns = Object.keys(this.attributes).filter((field) =>
+      rows.some((row) => field in row)
+    );
+    const rowType = columns.reduce((acc, field) => {
+      acc[field] = dataTypeToParamType(this.attributes[field]);
+      return acc;
+    }, {} as Record<string, any>);
+    const stagedRows = rows.map((row) =>
+      columns.reduce((acc, field) => {
+        acc[field] = row[field] ?? null;
+        return acc;
+      }, {} as Record<string, any>)
+    );
+
+    const onClause = options.conflictFields
+      .map((f) => `target.\`${f}\` = source.\`${f}\``)
+      .join(" AND ");
+    let sql = `MERGE \`${this.tablePath(
+      dataset
+    )}\` AS target USING (SELECT * FROM UNNEST(@rows)) AS source ON ${onClause}`;
+    if (options.updateFields.length) {
+      sql += ` WHEN MATCHED THEN UPDATE SET ${options.updateFields
+        .map((f) => `\`${f}\` = source.\`${f}\``)
+        .join(", ")}`;
+    }
+    sql += ` WHEN NOT MATCHED THEN INSERT (${columns
+      .map((c) => `\`${c}\``)
+      .join(", ")}) VALUES (${columns
+      .map((c) => `source.\`${c}\``)
+      .join(", ")})`;
+
+    this.orm.logger.info(
+      `[Model:mergeRows] Executing MERGE for ${this.name} in dataset ${dataset}`,
+      { sql, rowCount: rows.length }
+    );
+    return this.runDml(sql, { rows: stagedRows }, options.transaction, {
+      rows: [rowType],
+    });
+  }
+
+  static update<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [data: Partial<AttributesOf<M>>, options: UpdateOptions<AttributesOf<M>>]
+    >
+  ): Promise<number>;
+  static async update(...args: any[]): Promise<number> {
+    let [dataset, data, options] =
+      this.datasetArgs<[Record<string, any>, UpdateOptions]>(args);
     this.orm.logger.info(
       `[Model:update] Updating records for ${this.name} in dataset ${dataset}`,
       {
@@ -702,39 +2097,70 @@ export abstract class Model {
       );
       throw new Error("Free tier mode: UPDATE not allowed.");
     }
-    const setClauses = Object.entries(data)
-      .map(([field]) => `\`${field}\` = @set_${field}`)
-      .join(", ");
-    const setValues = Object.entries(data).reduce(
-      (acc, [field, value]) => ({ ...acc, [`set_${field}`]: value }),
-      {}
-    );
-    const { clause: whereClause, params: whereValues } = buildWhereClause(
-      options.where
-    );
-    const sql = `UPDATE \`${dataset}.${
-      this.tableName
-    }\` SET ${setClauses} WHERE ${whereClause || "TRUE"}`;
-    const allParams = { ...setValues, ...whereValues };
-    const [job] = await this.orm.bigquery.createQueryJob({
-      query: sql,
-      params: allParams,
+    if (options.individualHooks && options.hooks !== false) {
+      const instances = await this.findAll(dataset, {
+        where: options.where,
+        transaction: options.transaction,
+      });
+      for (const instance of instances) {
+        instance.set(data);
+        await instance.save({ transaction: options.transaction });
+      }
+      this.orm.logger.info(
+        `[Model:update] Updated ${instances.length} records individually for ${this.name} in dataset ${dataset}`
+      );
+      return instances.length;
+    }
+    if (options.hooks !== false) {
+      data = { ...data };
+      await this.hooks.run("beforeBulkUpdate", data, options);
+    }
+    this.validate(data, { partial: true });
+    const setClauses = [
+      ...Object.keys(data).map((field) => `\`${field}\` = @set_${field}`),
+      ...this.touchUpdatedAt(data),
+    ].join(", ");
+    const setValues: Record<string, any> = {};
+    const setTypes: Record<string, any> = {};
+    for (const [field, value] of Object.entries(data)) {
+      setValues[`set_${field}`] = value;
+      // Typed so that setting a column to NULL binds
+      if (this.attributes[field]) {
+        setTypes[`set_${field}`] = dataTypeToParamType(this.attributes[field]);
+      }
+    }
+    const {
+      clause: whereClause,
+      params: whereValues,
+      types: whereTypes,
+    } = buildWhereClause(this.scopedWhere(options.where), {}, 0, {
+      attributes: this.attributes,
     });
-    await job.getQueryResults();
-    const [metadata] = await job.getMetadata();
-    const affectedRows = Number(
-      metadata.statistics?.query?.numDmlAffectedRows || 0
+    const sql = `UPDATE \`${this.tablePath(
+      dataset
+    )}\` SET ${setClauses} WHERE ${this.dmlWhere(whereClause)}`;
+    const allParams = { ...setValues, ...whereValues };
+    const affectedRows = await this.runDml(
+      sql,
+      allParams,
+      options.transaction,
+      { ...setTypes, ...whereTypes }
     );
     this.orm.logger.info(
       `[Model:update] Updated ${affectedRows} records for ${this.name} in dataset ${dataset}`
     );
+    if (options.hooks !== false) {
+      await this.hooks.run("afterBulkUpdate", affectedRows, options);
+    }
     return affectedRows;
   }
 
-  static async destroy(
-    dataset: string,
-    options: DestroyOptions
-  ): Promise<number> {
+  static destroy<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<[options: DestroyOptions<AttributesOf<M>>]>
+  ): Promise<number>;
+  static async destroy(...args: any[]): Promise<number> {
+    let [dataset, options] = this.datasetArgs<[DestroyOptions]>(args);
     this.orm.logger.info(
       `[Model:destroy] Deleting records for ${this.name} in dataset ${dataset}`,
       {
@@ -747,28 +2173,61 @@ export abstract class Model {
       );
       throw new Error("Free tier mode: DESTROY (DELETE) not allowed.");
     }
-    const { clause, params } = buildWhereClause(options.where);
-    const sql = `DELETE FROM \`${dataset}.${this.tableName}\` WHERE ${
-      clause || "TRUE"
-    }`;
+    if (options.individualHooks && options.hooks !== false) {
+      const instances = await this.findAll(dataset, {
+        where: options.where,
+        transaction: options.transaction,
+      });
+      for (const instance of instances) {
+        await instance.destroy({
+          transaction: options.transaction,
+          force: options.force,
+        });
+      }
+      this.orm.logger.info(
+        `[Model:destroy] Deleted ${instances.length} records individually for ${this.name} in dataset ${dataset}`
+      );
+      return instances.length;
+    }
+    if (options.hooks !== false) {
+      options = { ...options };
+      await this.hooks.run("beforeBulkDestroy", options);
+    }
+    const { clause, params, types } = buildWhereClause(
+      this.scopedWhere(options.where),
+      {},
+      0,
+      {
+        attributes: this.attributes,
+      }
+    );
+    // Paranoid models only mark their rows as deleted unless forced
+    const sql =
+      this.paranoid && !options.force
+        ? `UPDATE \`${this.tablePath(dataset)}\` SET \`${
+            this.deletedAt
+          }\` = CURRENT_TIMESTAMP() WHERE ${this.dmlWhere(clause)}`
+        : `DELETE FROM \`${this.tablePath(dataset)}\` WHERE ${
+            clause || "TRUE"
+          }`;
 
     this.orm.logger.info(
       `[Model:destroy] Executing query: ${sql} in dataset ${dataset}`,
       { params }
     );
     try {
-      const [job] = await this.orm.bigquery.createQueryJob({
-        query: sql,
+      const affectedRows = await this.runDml(
+        sql,
         params,
-      });
-      await job.getQueryResults();
-      const [metadata] = await job.getMetadata();
-      const affectedRows = Number(
-        metadata.statistics?.query?.numDmlAffectedRows || 0
+        options.transaction,
+        types
       );
       this.orm.logger.info(
         `[Model:destroy] Deleted ${affectedRows} records for ${this.name} in dataset ${dataset}`
       );
+      if (options.hooks !== false) {
+        await this.hooks.run("afterBulkDestroy", affectedRows, options);
+      }
       return affectedRows;
     } catch (error: any) {
       this.orm.logger.error(
@@ -784,11 +2243,21 @@ export abstract class Model {
     }
   }
 
-  static async increment(
-    dataset: string,
-    fields: string | string[],
-    options: { by?: number; where: WhereOptions }
-  ): Promise<number> {
+  static increment<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [
+        fields:
+          | AttributeName<AttributesOf<M>>
+          | AttributeName<AttributesOf<M>>[],
+        options: IncrementOptions<AttributesOf<M>>
+      ]
+    >
+  ): Promise<number>;
+  static async increment(...args: any[]): Promise<number> {
+    const [dataset, fields, options] = this.datasetArgs<
+      [string | string[], IncrementOptions]
+    >(args, 1);
     this.orm.logger.info(
       `[Model:increment] Incrementing fields for ${this.name} in dataset ${dataset}`,
       { fields, options }
@@ -801,23 +2270,25 @@ export abstract class Model {
     }
     const by = options.by || 1;
     const fieldArray = Array.isArray(fields) ? fields : [fields];
-    const setClauses = fieldArray
-      .map((field) => `\`${field}\` = \`${field}\` + ${by}`)
-      .join(", ");
-    const { clause: whereClause, params: whereValues } = buildWhereClause(
-      options.where
-    );
-    const sql = `UPDATE \`${dataset}.${
-      this.tableName
-    }\` SET ${setClauses} WHERE ${whereClause || "TRUE"}`;
-    const [job] = await this.orm.bigquery.createQueryJob({
-      query: sql,
+    const setClauses = [
+      ...fieldArray.map((field) => `\`${field}\` = \`${field}\` + ${by}`),
+      ...this.touchUpdatedAt(),
+    ].join(", ");
+    const {
+      clause: whereClause,
       params: whereValues,
+      types: whereTypes,
+    } = buildWhereClause(this.scopedWhere(options.where), {}, 0, {
+      attributes: this.attributes,
     });
-    await job.getQueryResults();
-    const [metadata] = await job.getMetadata();
-    const affectedRows = Number(
-      metadata.statistics?.query?.numDmlAffectedRows || 0
+    const sql = `UPDATE \`${this.tablePath(
+      dataset
+    )}\` SET ${setClauses} WHERE ${this.dmlWhere(whereClause)}`;
+    const affectedRows = await this.runDml(
+      sql,
+      whereValues,
+      options.transaction,
+      whereTypes
     );
     this.orm.logger.info(
       `[Model:increment] Incremented ${affectedRows} records for ${this.name} in dataset ${dataset}`
@@ -825,11 +2296,21 @@ export abstract class Model {
     return affectedRows;
   }
 
-  static async decrement(
-    dataset: string,
-    fields: string | string[],
-    options: { by?: number; where: WhereOptions }
-  ): Promise<number> {
+  static decrement<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<
+      [
+        fields:
+          | AttributeName<AttributesOf<M>>
+          | AttributeName<AttributesOf<M>>[],
+        options: IncrementOptions<AttributesOf<M>>
+      ]
+    >
+  ): Promise<number>;
+  static async decrement(...args: any[]): Promise<number> {
+    const [dataset, fields, options] = this.datasetArgs<
+      [string | string[], IncrementOptions]
+    >(args, 1);
     this.orm.logger.info(
       `[Model:decrement] Decrementing fields for ${this.name} in dataset ${dataset}`,
       { fields, options }
@@ -840,7 +2321,51 @@ export abstract class Model {
     });
   }
 
-  static async truncate(dataset: string): Promise<void> {
+  // Clears deletedAt on the matching soft-deleted rows of a paranoid model
+  static restore<M extends typeof Model>(
+    this: M,
+    ...args: DatasetArgs<[options: RestoreOptions<AttributesOf<M>>]>
+  ): Promise<number>;
+  static async restore(...args: any[]): Promise<number> {
+    const [dataset, options] = this.datasetArgs<[RestoreOptions]>(args);
+    this.orm.logger.info(
+      `[Model:restore] Restoring records for ${this.name} in dataset ${dataset}`,
+      { options }
+    );
+    if (!this.paranoid) {
+      this.orm.logger.error(
+        `[Model:restore] ${this.name} is not paranoid; nothing to restore`
+      );
+      throw new Error(`${this.name} is not paranoid; nothing to restore.`);
+    }
+    if (this.orm.config.freeTierMode) {
+      this.orm.logger.error(
+        "[Model:restore] Free tier mode: RESTORE (UPDATE) not allowed."
+      );
+      throw new Error("Free tier mode: RESTORE (UPDATE) not allowed.");
+    }
+    const { clause, params, types } = buildWhereClause(options.where, {}, 0, {
+      attributes: this.attributes,
+    });
+    const sql = `UPDATE \`${this.tablePath(dataset)}\` SET \`${
+      this.deletedAt
+    }\` = NULL WHERE ${clause ? `(${clause}) AND ` : ""}\`${
+      this.deletedAt
+    }\` IS NOT NULL`;
+    const affectedRows = await this.runDml(
+      sql,
+      params,
+      options.transaction,
+      types
+    );
+    this.orm.logger.info(
+      `[Model:restore] Restored ${affectedRows} records for ${this.name} in dataset ${dataset}`
+    );
+    return affectedRows;
+  }
+
+  static async truncate(dataset?: string): Promise<void> {
+    dataset = this.datasetFor(dataset);
     this.orm.logger.info(
       `[Model:truncate] Truncating table for ${this.name} in dataset ${dataset}`
     );
@@ -850,8 +2375,8 @@ export abstract class Model {
       );
       throw new Error("Free tier mode: TRUNCATE not allowed.");
     }
-    const sql = `TRUNCATE TABLE \`${dataset}.${this.tableName}\``;
-    await this.orm.bigquery.query(sql);
+    const sql = `TRUNCATE TABLE \`${this.tablePath(dataset)}\``;
+    await this.orm.runQuery({ query: sql });
     this.orm.logger.info(
       `[Model:truncate] Table truncated for ${this.name} in dataset ${dataset}`
     );
@@ -866,14 +2391,20 @@ export abstract class Model {
     dataset: string,
     options: FindOptions,
     selectOverride?: string
-  ): { sql: string; params: Record<string, any> } {
+  ): {
+    sql: string;
+    params: Record<string, any>;
+    types: Record<string, any>;
+  } {
     this.orm.logger.info(
       `[Model:buildSelectQuery] Building query for ${this.name} in dataset ${dataset}`,
       { options, selectOverride }
     );
     const mainAlias = this.tableName;
-    let sql = `FROM \`${dataset}.${this.tableName}\` AS \`${mainAlias}\``;
+    let sql = `FROM \`${this.tablePath(dataset)}\` AS \`${mainAlias}\``;
     const params: Record<string, any> = {};
+    const types: Record<string, any> = {};
+    let paramIndex = 0;
     const whereClauses: string[] = [];
 
     if (options.include) {
@@ -893,10 +2424,22 @@ export abstract class Model {
         let joinOn: string;
         if (assoc.type === "belongsTo") {
           joinOn = `\`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON ${joinOn}${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         } else if (assoc.type === "hasOne" || assoc.type === "hasMany") {
           joinOn = `\`${mainAlias}\`.\`${this.primaryKey}\` = \`${as}\`.\`${assoc.foreignKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON ${joinOn}${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         } else if (assoc.type === "belongsToMany") {
           if (!assoc.through || !assoc.otherKey) {
             this.orm.logger.error(
@@ -908,31 +2451,58 @@ export abstract class Model {
             );
           }
           const throughAs = `${as}_through`;
-          const throughTable = assoc.through.tableName;
+          const throughTable = this.includedTablePath(assoc.through, dataset);
           // Use assoc.foreignKey for both sides of the first join
           joinOn = `\`${mainAlias}\`.\`${assoc.foreignKey}\` = \`${throughAs}\`.\`${assoc.foreignKey}\``;
-          sql += ` ${joinType} \`${dataset}.${throughTable}\` AS \`${throughAs}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${throughTable}\` AS \`${throughAs}\` ON ${joinOn}`;
           joinOn = `\`${throughAs}\`.\`${assoc.otherKey}\` = \`${as}\`.\`${inc.model.primaryKey}\``;
-          sql += ` ${joinType} \`${dataset}.${inc.model.tableName}\` AS \`${as}\` ON ${joinOn}`;
+          sql += ` ${joinType} \`${this.includedTablePath(
+            inc.model,
+            dataset
+          )}\` AS \`${as}\` ON ${joinOn}${inc.model.joinDeleted(
+            as,
+            options.paranoid
+          )}`;
         }
 
         if (inc.where) {
-          const { clause, params: incParams } = buildWhereClause(inc.where);
-          const prefixedClause = clause.replace(/`([^`]+)`/g, `\`${as}\`.$1`);
-          whereClauses.push(prefixedClause);
+          const {
+            clause,
+            params: incParams,
+            types: incTypes,
+            nextIndex,
+          } = buildWhereClause(inc.where, {}, paramIndex, {
+            alias: as,
+            attributes: inc.model.attributes,
+          });
+          paramIndex = nextIndex;
+          if (clause) whereClauses.push(clause);
           Object.assign(params, incParams);
+          Object.assign(types, incTypes);
         }
       }
     }
 
     let mainWhere = "";
     if (options.where) {
-      const { clause, params: mParams } = buildWhereClause(options.where);
+      const {
+        clause,
+        params: mParams,
+        types: mTypes,
+      } = buildWhereClause(options.where, {}, paramIndex, {
+        alias: mainAlias,
+        attributes: this.attributes,
+      });
       mainWhere = clause;
       Object.assign(params, mParams);
+      Object.assign(types, mTypes);
     }
 
-    let whereClause = [mainWhere, ...whereClauses]
+    let whereClause = [
+      mainWhere,
+      ...whereClauses,
+      this.deletedFilter(mainAlias, options.paranoid),
+    ]
       .filter((c) => c)
       .join(" AND ");
     if (whereClause) {
@@ -989,7 +2559,7 @@ export abstract class Model {
       `[Model:buildSelectQuery] Generated SQL for ${this.name} in dataset ${dataset}`,
       { sql, params }
     );
-    return { sql, params };
+    return { sql, params, types };
   }
 
   private static nestAssociations(
@@ -1019,7 +2589,7 @@ export abstract class Model {
       const parentPKValue = row[`${this.tableName}_${this.primaryKey}`];
       if (parentPKValue == null) continue;
 
-      let parent = parentMap.get(parentPKValue);
+      let parent = parentMap.get(valueKey(parentPKValue));
       if (!parent) {
         parent = {};
         for (const field in this.attributes) {
@@ -1037,7 +2607,7 @@ export abstract class Model {
                 : null;
           }
         }
-        parentMap.set(parentPKValue, parent);
+        parentMap.set(valueKey(parentPKValue), parent);
       }
 
       for (const inc of includes) {
@@ -1068,7 +2638,9 @@ export abstract class Model {
 
         if (assoc.type === "hasMany" || assoc.type === "belongsToMany") {
           if (
-            !parent[as].some((c: any) => c[inc.model.primaryKey] === childPK)
+            !parent[as].some((c: any) =>
+              valuesEqual(c[inc.model.primaryKey], childPK)
+            )
           ) {
             parent[as].push(child);
           }
@@ -1084,4 +2656,246 @@ export abstract class Model {
     );
     return result;
   }
+
+  private static hydrate(
+    rows: any[],
+    includes: IncludeOptions[],
+    dataset: string
+  ): Model[] {
+    return rows.map((row) => {
+      const instance = this.build(row, { dataset, isNewRecord: false });
+      for (const inc of includes) {
+        const as = inc.as || inc.model.tableName;
+        const nested = row[as];
+        if (nested == null) continue;
+        const options = {
+          dataset: inc.model.dataset || dataset,
+          isNewRecord: false,
+        };
+        instance.dataValues[as] = Array.isArray(nested)
+          ? nested.map((child: any) => inc.model.build(child, options))
+          : inc.model.build(nested, options);
+      }
+      return instance;
+    });
+  }
+
+  // Instance API
+
+  public dataValues: T = {} as T;
+  public isNewRecord: boolean;
+  private _dataset?: string;
+  private _previousDataValues: Record<string, any> = {};
+  private _changed: Set<string> = new Set();
+
+  constructor(values: Partial<T> = {}, options: BuildOptions = {}) {
+    this.isNewRecord = options.isNewRecord ?? true;
+    this._dataset = options.dataset;
+    const ctor = this.constructor as typeof Model;
+    if (this.isNewRecord) {
+      for (const [field, attr] of Object.entries(ctor.attributes || {})) {
+        if (!(field in values) && attr.defaultValue !== undefined) {
+          setDataValue(this, field, ctor.resolveDefault(attr.defaultValue));
+        }
+      }
+    }
+    Object.assign(this.dataValues, values);
+    this._previousDataValues = { ...this.dataValues };
+  }
+
+  get(options?: { plain?: boolean }): T;
+  get<K extends keyof T>(key: K, options?: { plain?: boolean }): T[K];
+  get(key?: keyof T | { plain?: boolean }, options: { plain?: boolean } = {}) {
+    if (typeof key !== "object") {
+      return key === undefined ? { ...this.dataValues } : this.dataValues[key];
+    }
+    const plain = key?.plain ?? options.plain;
+    if (!plain) {
+      return { ...this.dataValues };
+    }
+    const result: Record<string, any> = {};
+    for (const [field, value] of Object.entries(this.dataValues)) {
+      if (value instanceof Model) {
+        result[field] = value.get({ plain: true });
+      } else if (Array.isArray(value)) {
+        result[field] = value.map((v) =>
+          v instanceof Model ? v.get({ plain: true }) : v
+        );
+      } else {
+        result[field] = value;
+      }
+    }
+    return result;
+  }
+
+  set<K extends keyof T>(key: K, value: T[K]): this;
+  set(values: Partial<T>): this;
+  set(key: keyof T | Partial<T>, value?: any): this {
+    const values: Record<string, any> =
+      typeof key === "object" ? key : { [key]: value };
+    for (const [field, v] of Object.entries(values)) {
+      setDataValue(this, field, v);
+      if (valuesEqual(this._previousDataValues[field], v)) {
+        this._changed.delete(field);
+      } else {
+        this._changed.add(field);
+      }
+    }
+    return this;
+  }
+
+  changed(): string[] | false;
+  changed(key: string): boolean;
+  changed(key?: string): string[] | boolean {
+    if (key !== undefined) {
+      return this._changed.has(key);
+    }
+    return this._changed.size ? Array.from(this._changed) : false;
+  }
+
+  previous(key: string): any {
+    return this._previousDataValues[key];
+  }
+
+  async save(options: InstanceSaveOptions = {}): Promise<this> {
+    const ctor = this.constructor as typeof Model;
+    const dataset = this.resolveDataset(options.dataset);
+
+    if (this.isNewRecord) {
+      await ctor.insertInstance(dataset, this, options);
+      return this;
+    }
+
+    if (options.hooks !== false) {
+      await ctor.hooks.run("beforeUpdate", this, options);
+    }
+
+    const dirty = Array.from(this._changed).filter(
+      (f) =>
+        ctor.attributes[f] && (!options.fields || options.fields.includes(f))
+    );
+    if (!dirty.length) {
+      ctor.orm.logger.info(
+        `[Model:save] No changes to save for ${ctor.name} in dataset ${dataset}`
+      );
+      return this;
+    }
+
+    if (ctor.updatedAt && !dirty.includes(ctor.updatedAt)) {
+      setDataValue(
+        this,
+        ctor.updatedAt,
+        ctor.resolveDefault(ctor.attributes[ctor.updatedAt].defaultValue)
+      );
+      dirty.push(ctor.updatedAt);
+    }
+    const changes = dirty.reduce((acc, f) => {
+      acc[f] = this.dataValues[f];
+      return acc;
+    }, {} as Record<string, any>);
+    // The row is addressed by primary key, so scopes do not apply
+    await ctor.unscoped().update(dataset, changes, {
+      where: this.primaryKeyWhere(),
+      transaction: options.transaction,
+      hooks: false,
+    });
+    for (const field of dirty) {
+      this._previousDataValues[field] = this.dataValues[field];
+      this._changed.delete(field);
+    }
+    if (options.hooks !== false) {
+      await ctor.hooks.run("afterUpdate", this, options);
+    }
+    return this;
+  }
+
+  async update(
+    values: Partial<T>,
+    options: InstanceSaveOptions = {}
+  ): Promise<this> {
+    this.set(values);
+    return this.save({
+      ...options,
+      fields: options.fields || Object.keys(values),
+    });
+  }
+
+  async reload(options: InstanceOptions = {}): Promise<this> {
+    const ctor = this.constructor as typeof Model;
+    const dataset = this.resolveDataset(options.dataset);
+    const [row] = await ctor.unscoped().findAll(dataset, {
+      where: this.primaryKeyWhere(),
+      limit: 1,
+      raw: false,
+      transaction: options.transaction,
+    });
+    if (!row) {
+      throw new Error(
+        `Instance of ${ctor.name} with ${ctor.primaryKey}=${this.previous(
+          ctor.primaryKey
+        )} no longer exists`
+      );
+    }
+    for (const field of Object.keys(ctor.attributes)) {
+      setDataValue(this, field, row.dataValues[field]);
+    }
+    this.resetChanges();
+    return this;
+  }
+
+  async destroy(
+    options: InstanceOptions & { force?: boolean } = {}
+  ): Promise<number> {
+    const ctor = this.constructor as typeof Model;
+    const dataset = this.resolveDataset(options.dataset);
+    if (options.hooks !== false) {
+      await ctor.hooks.run("beforeDestroy", this, options);
+    }
+    const affectedRows = await ctor.unscoped().destroy(dataset, {
+      where: this.primaryKeyWhere(),
+      transaction: options.transaction,
+      force: options.force,
+      hooks: false,
+    });
+    if (options.hooks !== false) {
+      await ctor.hooks.run("afterDestroy", this, options);
+    }
+    return affectedRows;
+  }
+
+  validate(): void {
+    const ctor = this.constructor as typeof Model;
+    const values = Object.keys(ctor.attributes)
+      .filter((f) => f in this.dataValues)
+      .reduce((acc, f) => {
+        acc[f] = this.dataValues[f];
+        return acc;
+      }, {} as Record<string, any>);
+    ctor.validate(values, { partial: !this.isNewRecord });
+  }
+
+  toJSON(): Record<string, any> {
+    return this.get({ plain: true });
+  }
+
+  private resolveDataset(dataset?: string): string {
+    return (this.constructor as typeof Model).datasetFor(
+      dataset || this._dataset
+    );
+  }
+
+  // Uses the persisted key so a changed primary key still targets the stored row
+  private primaryKeyWhere(): WhereOptions {
+    const pk = (this.constructor as typeof Model).primaryKey;
+    const value = this._previousDataValues[pk];
+    if (value === undefined || value === null) {
+      throw new Error(`Instance has no ${pk} value to identify its row`);
+    }
+    return { [pk]: value };
+  }
+
+  private resetChanges() {
+    this._previousDataValues = { ...this.dataValues };
+    this._changed.clear();
+  }
 }
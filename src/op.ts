@@ -19,8 +19,8 @@ export const Op = {
   not: "NOT",
   any: "ANY",
   all: "ALL",
-  contains: "@>",
-  contained: "<@",
+  contains: "CONTAINS",
+  contained: "CONTAINED",
   add: "+",
 } as const;
 
@@ -1,8 +1,51 @@
 // src/queryInterface.ts
-import { BigQuery } from "@google-cloud/bigquery";
+import { BigQuery, Table } from "@google-cloud/bigquery";
 import { BigQueryORM } from "./bigQueryORM";
 import { DataType } from "./dataTypes";
+import { Transaction } from "./transaction";
 import { dataTypeToSchemaField } from "./utils";
+import {
+  TableOptions,
+  toTableDdlClauses,
+  toTableMetadata,
+} from "./tableOptions";
+
+// Carries column descriptions over by name, keeping the target's types/modes
+function copyDescriptions(target: any[], source: any[]): any[] {
+  return target.map((field) => {
+    const original = source.find((f) => f.name === field.name);
+    if (!original) return field;
+    return {
+      ...field,
+      ...(original.description && { description: original.description }),
+      ...(field.fields && {
+        fields: copyDescriptions(field.fields, original.fields || []),
+      }),
+    };
+  });
+}
+
+// Thrown when addPartition dropped the original table but could not copy the
+// rebuilt one back. `restored` tells whether the original was recreated from
+// the snapshot; the staging table and snapshot are kept either way.
+export class RepartitionError extends Error {
+  public stagingTable: string;
+  public snapshot: string;
+  public restored: boolean;
+
+  constructor(
+    message: string,
+    stagingTable: string,
+    snapshot: string,
+    restored: boolean
+  ) {
+    super(message);
+    this.name = "RepartitionError";
+    this.stagingTable = stagingTable;
+    this.snapshot = snapshot;
+    this.restored = restored;
+  }
+}
 
 export class QueryInterface {
   QueryTypes = {
@@ -39,9 +82,9 @@ export class QueryInterface {
     dataset: string,
     tableName: string,
     attributes: Record<string, DataType>,
-    options: {
+    options: TableOptions & {
+      // Shorthand for DAY partitioning on this column
       partitionBy?: string;
-      clusterBy?: string[];
       primaryKey?: string;
     } = {}
   ): Promise<void> {
@@ -75,21 +118,21 @@ export class QueryInterface {
     const schema = Object.entries(attributes).map(([name, type]) =>
       dataTypeToSchemaField(name, type)
     );
-    const createOptions: any = { schema };
-    if (options.partitionBy) {
-      createOptions.timePartitioning = {
-        type: "DAY",
-        field: options.partitionBy,
-      };
+    const { partitionBy, primaryKey, ...tableOptions } = options;
+    if (partitionBy && !tableOptions.timePartitioning) {
+      tableOptions.timePartitioning = { type: "DAY", field: partitionBy };
     }
-    // Add clustering for primary key if provided (BigQuery's index equivalent)
-    if (options.primaryKey) {
-      createOptions.clustering = { fields: [options.primaryKey] };
+    // Clusters by primary key (BigQuery's index equivalent) unless clusterBy is set
+    const createOptions: any = {
+      schema,
+      ...toTableMetadata(tableOptions, primaryKey),
+    };
+    if (createOptions.clustering) {
       this.orm.logger.info(
-        `[QueryInterface:createTable] Clustering table ${tableName} by primary key ${options.primaryKey} in dataset ${dataset}`
+        `[QueryInterface:createTable] Clustering table ${tableName} by ${createOptions.clustering.fields.join(
+          ", "
+        )} in dataset ${dataset}`
       );
-    } else if (options.clusterBy) {
-      createOptions.clustering = { fields: options.clusterBy };
     }
     await table.create(createOptions);
     this.orm.logger.info(
@@ -142,7 +185,7 @@ export class QueryInterface {
     const dataTypeStr = this.dataTypeToString(type);
     const notNull = type.allowNull === false ? " NOT NULL" : "";
     const sql = `ALTER TABLE \`${this.orm.config.projectId}.${dataset}.${tableName}\` ADD COLUMN \`${columnName}\` ${dataTypeStr}${notNull}`;
-    await this.orm.bigquery.query(sql);
+    await this.orm.runQuery({ query: sql });
     this.orm.logger.info(
       `[QueryInterface:addColumn] Added column ${columnName} to ${tableName} in dataset ${dataset}`
     );
@@ -164,7 +207,7 @@ export class QueryInterface {
       throw new Error("Free tier mode: DROP COLUMN (DML) not allowed.");
     }
     const sql = `ALTER TABLE \`${this.orm.config.projectId}.${dataset}.${tableName}\` DROP COLUMN IF EXISTS \`${columnName}\``;
-    await this.orm.bigquery.query(sql);
+    await this.orm.runQuery({ query: sql });
     this.orm.logger.info(
       `[QueryInterface:removeColumn] Removed column ${columnName} from ${tableName} in dataset ${dataset}`
     );
@@ -187,7 +230,7 @@ export class QueryInterface {
       throw new Error("Free tier mode: RENAME COLUMN (DML) not allowed.");
     }
     const sql = `ALTER TABLE \`${this.orm.config.projectId}.${dataset}.${tableName}\` RENAME COLUMN \`${oldColumnName}\` TO \`${newColumnName}\``;
-    await this.orm.bigquery.query(sql);
+    await this.orm.runQuery({ query: sql });
     this.orm.logger.info(
       `[QueryInterface:renameColumn] Renamed column ${oldColumnName} to ${newColumnName} in ${tableName} in dataset ${dataset}`
     );
@@ -211,23 +254,31 @@ export class QueryInterface {
     }
     const dataTypeStr = this.dataTypeToString(type);
     const sql = `ALTER TABLE \`${this.orm.config.projectId}.${dataset}.${tableName}\` ALTER COLUMN \`${columnName}\` SET DATA TYPE ${dataTypeStr}`;
-    await this.orm.bigquery.query(sql);
+    await this.orm.runQuery({ query: sql });
     this.orm.logger.info(
       `[QueryInterface:changeColumn] Changed column ${columnName} type in ${tableName} in dataset ${dataset}`
     );
   }
 
+  // Rebuilds the table with the new partitioning: CREATE TABLE ... AS SELECT
+  // into a staging table, check row counts, snapshot the original, then
+  // replace it by drop + copy. Rows written to the original while this runs
+  // are lost.
   async addPartition(
     dataset: string,
     tableName: string,
-    partitionBy: string
-  ): Promise<void> {
+    // A column name is shorthand for DAY partitioning on it
+    partitioning: string | TableOptions,
+    options: {
+      // Keep the snapshot of the original table after a successful rebuild
+      keepSnapshot?: boolean;
+      // Snapshot lifetime; kept until deleted when omitted
+      snapshotExpirationMs?: number;
+    } = {}
+  ): Promise<{ snapshot?: string }> {
     this.orm.logger.info(
       "[QueryInterface:addPartition] Starting addPartition",
-      { dataset, tableName, partitionBy }
-    );
-    this.orm.logger.warn(
-      "[QueryInterface:addPartition] Partitioning requires table recreation."
+      { dataset, tableName, partitioning, options }
     );
     if (this.orm.config.freeTierMode) {
       this.orm.logger.error(
@@ -235,10 +286,150 @@ export class QueryInterface {
       );
       throw new Error("Free tier mode: Partition changes not supported.");
     }
-    // Note: BigQuery requires table recreation for partitioning changes
+    const tableOptions: TableOptions =
+      typeof partitioning === "string"
+        ? { timePartitioning: { type: "DAY", field: partitioning } }
+        : { ...partitioning };
+
+    const ds = this.orm.bigquery.dataset(dataset);
+    const table = ds.table(tableName);
+    const [metadata] = await table.getMetadata();
+    const fields: any[] = metadata.schema?.fields || [];
+    if (!tableOptions.clusterBy && metadata.clustering?.fields) {
+      tableOptions.clusterBy = metadata.clustering.fields;
+    }
+    const partitionField = tableOptions.timePartitioning?.field;
+    const fieldType = fields.find((f) => f.name === partitionField)?.type;
+
+    const stamp = Date.now();
+    const stagingName = `${tableName}__repartition_${stamp}`;
+    const ref = (name: string) =>
+      `\`${this.orm.config.projectId}.${dataset}.${name}\``;
+
+    await this.orm.runQuery({
+      query: `CREATE TABLE ${ref(stagingName)} ${toTableDdlClauses(
+        tableOptions,
+        fieldType
+      )} AS SELECT * FROM ${ref(tableName)}`,
+    });
+    this.orm.logger.info(
+      `[QueryInterface:addPartition] Copied ${tableName} into ${stagingName}`
+    );
+
+    const countRows = async (name: string) => {
+      const { rows } = await this.orm.runQuery({
+        query: `SELECT COUNT(*) AS total FROM ${ref(name)}`,
+      });
+      return Number(rows[0]?.total || 0);
+    };
+    const [originalCount, stagedCount] = [
+      await countRows(tableName),
+      await countRows(stagingName),
+    ];
+    if (originalCount !== stagedCount) {
+      await ds.table(stagingName).delete();
+      this.orm.logger.error(
+        `[QueryInterface:addPartition] Row count mismatch for ${tableName}: ${originalCount} vs ${stagedCount}; original left untouched`
+      );
+      throw new Error(
+        `Row count mismatch while repartitioning ${tableName} (${originalCount} vs ${stagedCount}); original table left untouched.`
+      );
+    }
+
+    // Taken even without keepSnapshot, so a failed copy can be rolled back
+    const snapshot = `${tableName}__snapshot_${stamp}`;
+    const expiration =
+      options.snapshotExpirationMs !== undefined
+        ? ` OPTIONS (expiration_timestamp = TIMESTAMP_ADD(CURRENT_TIMESTAMP(), INTERVAL ${Math.round(
+            options.snapshotExpirationMs
+          )} MILLISECOND))`
+        : "";
+    await this.orm.runQuery({
+      query: `CREATE SNAPSHOT TABLE ${ref(snapshot)} CLONE ${ref(
+        tableName
+      )}${expiration}`,
+    });
     this.orm.logger.info(
-      "[QueryInterface:addPartition] Partitioning not directly supported; manual table recreation required."
+      `[QueryInterface:addPartition] Saved snapshot ${snapshot} of ${tableName}`
     );
+
+    await table.delete();
+    try {
+      await this.copyTable(ds.table(stagingName), table);
+    } catch (err: any) {
+      let restored = false;
+      try {
+        await this.orm.runQuery({
+          query: `CREATE TABLE ${ref(tableName)} CLONE ${ref(snapshot)}`,
+        });
+        restored = true;
+      } catch (restoreErr: any) {
+        this.orm.logger.error(
+          `[QueryInterface:addPartition] Restoring ${tableName} from ${snapshot} failed`,
+          restoreErr.message
+        );
+      }
+      const state = restored
+        ? `${tableName} was restored from ${snapshot}`
+        : `its data remains in ${stagingName} and ${snapshot}`;
+      this.orm.logger.error(
+        `[QueryInterface:addPartition] Copy back failed; ${state}`,
+        err.message
+      );
+      throw new RepartitionError(
+        `Repartitioning ${tableName} failed while copying ${stagingName} back (${err.message}); ${state}.`,
+        stagingName,
+        snapshot,
+        restored
+      );
+    }
+    await ds.table(stagingName).delete();
+    if (!options.keepSnapshot) {
+      await ds.table(snapshot).delete();
+    }
+
+    // CTAS drops the table description, labels and column descriptions
+    const [current] = await table.getMetadata();
+    const restored: any = {
+      description: metadata.description,
+      labels: metadata.labels,
+      friendlyName: metadata.friendlyName,
+      schema: {
+        fields: copyDescriptions(current.schema?.fields || [], fields),
+      },
+    };
+    await table.setMetadata(restored);
+
+    this.orm.logger.info(
+      `[QueryInterface:addPartition] Repartitioned ${tableName} in dataset ${dataset}`,
+      {
+        rows: originalCount,
+        snapshot: options.keepSnapshot ? snapshot : undefined,
+      }
+    );
+    return options.keepSnapshot ? { snapshot } : {};
+  }
+
+  // Table copy with a few attempts; WRITE_TRUNCATE so that retrying after a
+  // copy that did land replaces it
+  private async copyTable(
+    source: Table,
+    destination: Table,
+    attempts = 3
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await source.copy(destination, { writeDisposition: "WRITE_TRUNCATE" });
+        return;
+      } catch (err: any) {
+        if (attempt >= attempts) throw err;
+        this.orm.logger.warn(
+          `[QueryInterface:copyTable] Copy attempt ${attempt} of ${source.id} failed, retrying`,
+          err.message
+        );
+        await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+      }
+    }
   }
 
   async addClustering(
@@ -260,17 +451,29 @@ export class QueryInterface {
     }.${dataset}.${tableName}\` SET OPTIONS (clustering_fields = '${JSON.stringify(
       clusterBy
     )}')`;
-    await this.orm.bigquery.query(sql);
+    await this.orm.runQuery({ query: sql });
     this.orm.logger.info(
       `[QueryInterface:addClustering] Added clustering to ${tableName} in dataset ${dataset}`
     );
   }
 
-  async query(dataset: string, sql: string, params?: any): Promise<any> {
+  async query(
+    dataset: string,
+    sql: string,
+    params?: any,
+    // `types` declares parameter types, required for NULL and empty arrays
+    options: {
+      transaction?: Transaction;
+      types?: Record<string, any>;
+      dryRunFirst?: boolean;
+      maximumBytesBilled?: number | null;
+    } = {}
+  ): Promise<any> {
     this.orm.logger.info("[QueryInterface:query] Starting query execution", {
       dataset,
       sql,
       params,
+      sessionId: options.transaction?.sessionId,
     });
     if (
       this.orm.config.freeTierMode &&
@@ -281,10 +484,17 @@ export class QueryInterface {
       );
       throw new Error("Free tier mode: INSERT queries not allowed.");
     }
-    const result = await this.orm.bigquery.query({ query: sql, params });
+    const { rows } = await this.orm.runQuery(
+      { query: sql, params, types: options.types },
+      {
+        transaction: options.transaction,
+        dryRunFirst: options.dryRunFirst,
+        maximumBytesBilled: options.maximumBytesBilled,
+      }
+    );
     this.orm.logger.info(
       `[QueryInterface:query] Executed query successfully for dataset ${dataset}`
     );
-    return result;
+    return [rows];
   }
 }
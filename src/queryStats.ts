@@ -0,0 +1,73 @@
+// src/queryStats.ts
+
+export interface QueryPlanStep {
+  kind: string;
+  substeps: string[];
+}
+
+export interface QueryPlanStage {
+  id: number;
+  name: string;
+  status: string;
+  inputStages: number[];
+  recordsRead: number;
+  recordsWritten: number;
+  slotMs: number;
+  shuffleOutputBytes: number;
+  durationMs: number;
+  steps: QueryPlanStep[];
+}
+
+export interface QueryStats {
+  jobId?: string;
+  queryPlan: QueryPlanStage[];
+  totalBytesProcessed: number;
+  totalBytesBilled: number;
+  totalSlotMs: number;
+  cacheHit: boolean;
+  // Fewer partitions than the table holds means the filter pruned the rest
+  totalPartitionsProcessed: number;
+  elapsedMs: number;
+}
+
+// The jobs API reports int64 statistics as strings
+function num(value: any): number {
+  return value == null ? 0 : Number(value);
+}
+
+export function toQueryStats(
+  jobId: string | undefined,
+  statistics: any
+): QueryStats {
+  const query = statistics?.query || {};
+  return {
+    jobId,
+    queryPlan: (query.queryPlan || []).map(
+      (stage: any): QueryPlanStage => ({
+        id: num(stage.id),
+        name: stage.name,
+        status: stage.status,
+        inputStages: (stage.inputStages || []).map(num),
+        recordsRead: num(stage.recordsRead),
+        recordsWritten: num(stage.recordsWritten),
+        slotMs: num(stage.slotMs),
+        shuffleOutputBytes: num(stage.shuffleOutputBytes),
+        durationMs: num(stage.endMs) - num(stage.startMs),
+        steps: (stage.steps || []).map((step: any) => ({
+          kind: step.kind,
+          substeps: step.substeps || [],
+        })),
+      })
+    ),
+    totalBytesProcessed: num(
+      query.totalBytesProcessed ?? statistics?.totalBytesProcessed
+    ),
+    totalBytesBilled: num(query.totalBytesBilled),
+    totalSlotMs: num(query.totalSlotMs ?? statistics?.totalSlotMs),
+    cacheHit: !!query.cacheHit,
+    totalPartitionsProcessed: num(query.totalPartitionsProcessed),
+    elapsedMs: statistics?.endTime
+      ? num(statistics.endTime) - num(statistics.startTime)
+      : 0,
+  };
+}
@@ -0,0 +1,177 @@
+// src/schemaDiff.ts
+
+export interface SchemaField {
+  name: string;
+  type: string;
+  mode?: string;
+  fields?: SchemaField[];
+  precision?: number | string;
+  scale?: number | string;
+  [key: string]: any;
+}
+
+export type SchemaChangeKind =
+  | "addColumn"
+  | "relaxMode"
+  | "widenType"
+  | "changeType"
+  | "changeMode"
+  | "dropColumn";
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  // Dotted path for nested STRUCT fields, e.g. "address.zip"
+  path: string;
+  safe: boolean;
+  from?: SchemaField;
+  to?: SchemaField;
+  reason?: string;
+}
+
+// The tables API reports legacy SQL type names
+const TYPE_ALIASES: Record<string, string> = {
+  INTEGER: "INT64",
+  FLOAT: "FLOAT64",
+  BOOLEAN: "BOOL",
+  RECORD: "STRUCT",
+  DECIMAL: "NUMERIC",
+  BIGDECIMAL: "BIGNUMERIC",
+};
+
+// Coercions BigQuery allows with ALTER COLUMN SET DATA TYPE
+const TYPE_WIDENINGS: Record<string, string[]> = {
+  INT64: ["NUMERIC", "BIGNUMERIC", "FLOAT64"],
+  NUMERIC: ["BIGNUMERIC", "FLOAT64"],
+};
+
+export function normalizeType(type: string): string {
+  const upper = type.toUpperCase();
+  return TYPE_ALIASES[upper] || upper;
+}
+
+function modeOf(field: SchemaField): string {
+  return field.mode || "NULLABLE";
+}
+
+function indexByName(fields: SchemaField[]): Map<string, SchemaField> {
+  // Column names are case-insensitive in BigQuery
+  return new Map(fields.map((f) => [f.name.toLowerCase(), f]));
+}
+
+export function diffSchema(
+  live: SchemaField[],
+  desired: SchemaField[],
+  prefix = ""
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const liveByName = indexByName(live);
+  const desiredByName = indexByName(desired);
+
+  for (const field of desired) {
+    const path = `${prefix}${field.name}`;
+    const current = liveByName.get(field.name.toLowerCase());
+
+    if (!current) {
+      const required = modeOf(field) === "REQUIRED";
+      changes.push({
+        kind: "addColumn",
+        path,
+        to: field,
+        safe: !required,
+        reason: required
+          ? "REQUIRED columns cannot be added to an existing table"
+          : undefined,
+      });
+      continue;
+    }
+
+    const fromType = normalizeType(current.type);
+    const toType = normalizeType(field.type);
+    if (fromType !== toType) {
+      const widening = (TYPE_WIDENINGS[fromType] || []).includes(toType);
+      changes.push({
+        kind: widening ? "widenType" : "changeType",
+        path,
+        from: current,
+        to: field,
+        // SET DATA TYPE only works on top-level columns
+        safe: widening && !prefix,
+        reason: !widening
+          ? `${fromType} cannot be converted to ${toType} in place`
+          : prefix
+          ? "Nested field types cannot be changed in place"
+          : undefined,
+      });
+    } else if (toType === "STRUCT") {
+      changes.push(
+        ...diffSchema(current.fields || [], field.fields || [], `${path}.`)
+      );
+    }
+
+    const fromMode = modeOf(current);
+    const toMode = modeOf(field);
+    if (fromMode !== toMode) {
+      const relax = fromMode === "REQUIRED" && toMode === "NULLABLE";
+      changes.push({
+        kind: relax ? "relaxMode" : "changeMode",
+        path,
+        from: current,
+        to: field,
+        safe: relax,
+        reason: relax
+          ? undefined
+          : `Mode ${fromMode} cannot be changed to ${toMode} in place`,
+      });
+    }
+  }
+
+  for (const field of live) {
+    if (!desiredByName.has(field.name.toLowerCase())) {
+      changes.push({
+        kind: "dropColumn",
+        path: `${prefix}${field.name}`,
+        from: field,
+        safe: false,
+        reason: "Dropping columns is destructive; use a migration",
+      });
+    }
+  }
+
+  return changes;
+}
+
+// Applies the additive changes (new NULLABLE/REPEATED columns, new nested
+// fields, REQUIRED -> NULLABLE) to the live schema. Existing fields are never
+// removed or retyped here; type widening goes through DDL instead.
+export function mergeSchema(
+  live: SchemaField[],
+  desired: SchemaField[]
+): SchemaField[] {
+  const desiredByName = indexByName(desired);
+  const merged = live.map((current) => {
+    const field = desiredByName.get(current.name.toLowerCase());
+    if (!field) return current;
+    const next: SchemaField = { ...current };
+    if (modeOf(current) === "REQUIRED" && modeOf(field) === "NULLABLE") {
+      next.mode = "NULLABLE";
+    }
+    if (
+      normalizeType(current.type) === "STRUCT" &&
+      normalizeType(field.type) === "STRUCT"
+    ) {
+      next.fields = mergeSchema(current.fields || [], field.fields || []);
+    }
+    return next;
+  });
+
+  const liveByName = indexByName(live);
+  for (const field of desired) {
+    if (
+      !liveByName.has(field.name.toLowerCase()) &&
+      modeOf(field) !== "REQUIRED"
+    ) {
+      merged.push(field);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,179 @@
+// src/tableOptions.ts
+
+export interface TimePartitioningOptions {
+  type: "HOUR" | "DAY" | "MONTH" | "YEAR";
+  // DATE, DATETIME or TIMESTAMP column; omit for ingestion-time partitioning
+  field?: string;
+  // Partitions older than this are deleted
+  expirationMs?: number;
+}
+
+export interface RangePartitioningOptions {
+  // INT64 column
+  field: string;
+  start: number;
+  end: number;
+  interval: number;
+}
+
+export interface TableOptions {
+  timePartitioning?: TimePartitioningOptions;
+  rangePartitioning?: RangePartitioningOptions;
+  // Reject queries that do not filter on the partitioning column
+  requirePartitionFilter?: boolean;
+  // Up to four columns; defaults to the primary key, [] disables clustering
+  clusterBy?: string[];
+  description?: string;
+}
+
+const MAX_CLUSTERING_FIELDS = 4;
+
+export function validateTableOptions(options: TableOptions): void {
+  if (options.timePartitioning && options.rangePartitioning) {
+    throw new Error(
+      "A table can use timePartitioning or rangePartitioning, not both."
+    );
+  }
+  const range = options.rangePartitioning;
+  if (range && (range.interval <= 0 || range.end <= range.start)) {
+    throw new Error(
+      "rangePartitioning needs a positive interval and end greater than start."
+    );
+  }
+  if ((options.clusterBy?.length || 0) > MAX_CLUSTERING_FIELDS) {
+    throw new Error(
+      `A table can be clustered by at most ${MAX_CLUSTERING_FIELDS} columns.`
+    );
+  }
+}
+
+// Table resource fields for the tables.insert API
+export function toTableMetadata(
+  options: TableOptions,
+  primaryKey?: string
+): Record<string, any> {
+  validateTableOptions(options);
+  const metadata: Record<string, any> = {};
+  const time = options.timePartitioning;
+  if (time) {
+    metadata.timePartitioning = {
+      type: time.type,
+      ...(time.field && { field: time.field }),
+      ...(time.expirationMs !== undefined && {
+        expirationMs: String(time.expirationMs),
+      }),
+    };
+  }
+  const range = options.rangePartitioning;
+  if (range) {
+    metadata.rangePartitioning = {
+      field: range.field,
+      range: {
+        start: String(range.start),
+        end: String(range.end),
+        interval: String(range.interval),
+      },
+    };
+  }
+  if (options.requirePartitionFilter !== undefined) {
+    metadata.requirePartitionFilter = options.requirePartitionFilter;
+  }
+  if (options.description) {
+    metadata.description = options.description;
+  }
+  const clusterBy =
+    options.clusterBy ?? (primaryKey ? [primaryKey] : undefined);
+  if (clusterBy?.length) {
+    metadata.clustering = { fields: clusterBy };
+  }
+  return metadata;
+}
+
+// Inverse of toTableMetadata; clusterBy is [] for unclustered tables
+export function tableOptionsFromMetadata(
+  metadata: Record<string, any>
+): TableOptions {
+  const options: TableOptions = {
+    clusterBy: metadata.clustering?.fields || [],
+  };
+  const time = metadata.timePartitioning;
+  if (time) {
+    options.timePartitioning = {
+      type: time.type,
+      ...(time.field && { field: time.field }),
+      ...(time.expirationMs !== undefined && {
+        expirationMs: Number(time.expirationMs),
+      }),
+    };
+  }
+  const range = metadata.rangePartitioning;
+  if (range) {
+    options.rangePartitioning = {
+      field: range.field,
+      start: Number(range.range.start),
+      end: Number(range.range.end),
+      interval: Number(range.range.interval),
+    };
+  }
+  if (metadata.requirePartitionFilter !== undefined) {
+    options.requirePartitionFilter = metadata.requirePartitionFilter;
+  }
+  if (metadata.description) {
+    options.description = metadata.description;
+  }
+  return options;
+}
+
+function partitionExpression(
+  options: TableOptions,
+  fieldType?: string
+): string {
+  const range = options.rangePartitioning;
+  if (range) {
+    return `RANGE_BUCKET(\`${range.field}\`, GENERATE_ARRAY(${range.start}, ${range.end}, ${range.interval}))`;
+  }
+  const time = options.timePartitioning!;
+  if (!time.field) {
+    throw new Error(
+      "Ingestion-time partitioning cannot be applied to existing rows; partition on a column instead."
+    );
+  }
+  const column = `\`${time.field}\``;
+  if (fieldType === "DATE") {
+    return time.type === "DAY" ? column : `DATE_TRUNC(${column}, ${time.type})`;
+  }
+  const fn = fieldType === "DATETIME" ? "DATETIME_TRUNC" : "TIMESTAMP_TRUNC";
+  return `${fn}(${column}, ${time.type})`;
+}
+
+// PARTITION BY, CLUSTER BY and OPTIONS clauses for CREATE TABLE statements.
+// `fieldType` is the type of the time partitioning column.
+export function toTableDdlClauses(
+  options: TableOptions,
+  fieldType?: string
+): string {
+  validateTableOptions(options);
+  const clauses: string[] = [];
+  if (options.timePartitioning || options.rangePartitioning) {
+    clauses.push(`PARTITION BY ${partitionExpression(options, fieldType)}`);
+  }
+  if (options.clusterBy?.length) {
+    clauses.push(
+      `CLUSTER BY ${options.clusterBy.map((f) => `\`${f}\``).join(", ")}`
+    );
+  }
+  const tableOptions: string[] = [];
+  if (options.requirePartitionFilter !== undefined) {
+    tableOptions.push(
+      `require_partition_filter = ${options.requirePartitionFilter}`
+    );
+  }
+  const expirationMs = options.timePartitioning?.expirationMs;
+  if (expirationMs !== undefined) {
+    tableOptions.push(`partition_expiration_days = ${expirationMs / 86400000}`);
+  }
+  if (tableOptions.length) {
+    clauses.push(`OPTIONS (${tableOptions.join(", ")})`);
+  }
+  return clauses.join(" ");
+}
@@ -0,0 +1,146 @@
+// src/tenancy.ts
+import { AsyncLocalStorage } from "async_hooks";
+import { BigQueryORM, SyncOptions, SyncTableReport } from "./bigQueryORM";
+import { QueryInterface } from "./queryInterface";
+
+export interface TenantContext {
+  tenantId: string;
+  dataset: string;
+}
+
+type DatasetMethod = (dataset: string, ...args: any[]) => any;
+
+type WithoutDataset<F> = F extends (
+  dataset: string,
+  ...args: infer A
+) => infer R
+  ? (...args: A) => R
+  : never;
+
+// QueryInterface with the tenant's dataset filled in as the first argument
+export type TenantQueryInterface = {
+  [K in keyof QueryInterface as QueryInterface[K] extends DatasetMethod
+    ? K
+    : never]: WithoutDataset<QueryInterface[K]>;
+};
+
+export interface FanOutOptions {
+  // Defaults to the config's `tenants` resolver
+  tenants?: string[];
+  // Tenants processed at the same time (default: 4)
+  concurrency?: number;
+}
+
+export interface TenantReport<T = any> {
+  tenantId: string;
+  dataset: string;
+  status: "succeeded" | "failed";
+  result?: T;
+  error?: Error;
+  durationMs: number;
+}
+
+export class TenantScope {
+  readonly dataset: string;
+  readonly queryInterface: TenantQueryInterface;
+
+  constructor(
+    private orm: BigQueryORM,
+    readonly tenantId: string,
+    private storage: AsyncLocalStorage<TenantContext>
+  ) {
+    this.dataset = orm.config.tenantDataset(tenantId);
+    if (!this.dataset) {
+      orm.logger.error(
+        `[TenantScope:constructor] No dataset resolved for tenant ${tenantId}`
+      );
+      throw new Error(`No dataset resolved for tenant ${tenantId}.`);
+    }
+    const qi = orm.getQueryInterface() as any;
+    const bound: Record<string, any> = {};
+    for (const key of Object.getOwnPropertyNames(QueryInterface.prototype)) {
+      if (key === "constructor" || typeof qi[key] !== "function") continue;
+      bound[key] = (...args: any[]) =>
+        this.run(() => qi[key](this.dataset, ...args));
+    }
+    this.queryInterface = bound as TenantQueryInterface;
+  }
+
+  // Model calls inside `fn` (and anything it awaits) use the tenant's
+  // dataset unless they pass one or their model has its own
+  run<T>(fn: () => T): T {
+    return this.storage.run(
+      { tenantId: this.tenantId, dataset: this.dataset },
+      fn
+    );
+  }
+
+  sync(options: SyncOptions = {}): Promise<SyncTableReport[]> {
+    return this.run(() => this.orm.sync(this.dataset, options));
+  }
+
+  runMigrations(migrationsPath: string): Promise<string[]> {
+    return this.run(() => this.orm.runMigrations(this.dataset, migrationsPath));
+  }
+}
+
+// Runs `fn` for every tenant, at most `concurrency` at a time. A failing
+// tenant is reported and does not stop the others.
+export async function runForTenants<T>(
+  orm: BigQueryORM,
+  tenantIds: string[],
+  concurrency: number,
+  fn: (scope: TenantScope) => Promise<T>
+): Promise<TenantReport<T>[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    orm.logger.error(
+      `[Tenancy:runForTenants] Invalid concurrency: ${concurrency}`
+    );
+    throw new Error(
+      `Tenant concurrency must be a positive integer, got ${concurrency}.`
+    );
+  }
+  const reports: TenantReport<T>[] = new Array(tenantIds.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tenantIds.length) {
+      const index = next++;
+      const tenantId = tenantIds[index];
+      const started = Date.now();
+      let dataset = "";
+      try {
+        const scope = orm.forTenant(tenantId);
+        dataset = scope.dataset;
+        const result = await fn(scope);
+        reports[index] = {
+          tenantId,
+          dataset,
+          status: "succeeded",
+          result,
+          durationMs: Date.now() - started,
+        };
+      } catch (err: any) {
+        orm.logger.error(
+          `[Tenancy:runForTenants] Tenant ${tenantId} failed:`,
+          err.message
+        );
+        reports[index] = {
+          tenantId,
+          dataset,
+          status: "failed",
+          error: err,
+          durationMs: Date.now() - started,
+        };
+      }
+    }
+  };
+  const workers = Math.max(1, Math.min(concurrency, tenantIds.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  const failed = reports.filter((r) => r.status === "failed").length;
+  orm.logger.info(
+    `[Tenancy:runForTenants] ${tenantIds.length - failed} of ${
+      tenantIds.length
+    } tenant(s) succeeded`
+  );
+  return reports;
+}
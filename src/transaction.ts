@@ -0,0 +1,88 @@
+// src/transaction.ts
+import { Query } from "@google-cloud/bigquery";
+import { BigQueryORM } from "./bigQueryORM";
+
+export type TransactionState =
+  | "pending"
+  | "active"
+  | "committed"
+  | "rolledBack";
+
+export class Transaction {
+  public sessionId: string | null = null;
+  public state: TransactionState = "pending";
+
+  constructor(private orm: BigQueryORM) {}
+
+  // Opens a BigQuery session and starts a multi-statement transaction in it
+  async begin(): Promise<void> {
+    this.orm.logger.info("[Transaction:begin] Opening session");
+    if (this.state !== "pending") {
+      throw new Error(`Transaction cannot begin from state ${this.state}`);
+    }
+    const [job] = await this.orm.bigquery.createQueryJob({
+      query: "BEGIN TRANSACTION",
+      createSession: true,
+    });
+    await job.getQueryResults();
+    const [metadata] = await job.getMetadata();
+    const sessionId = metadata.statistics?.sessionInfo?.sessionId;
+    if (!sessionId) {
+      this.orm.logger.error(
+        "[Transaction:begin] BigQuery did not return a session id"
+      );
+      throw new Error("Failed to open BigQuery session for transaction");
+    }
+    this.sessionId = sessionId;
+    this.state = "active";
+    this.orm.logger.info("[Transaction:begin] Transaction started", {
+      sessionId,
+    });
+  }
+
+  // Query options that route a job through this transaction's session
+  queryOptions(): Partial<Query> {
+    if (this.state !== "active" || !this.sessionId) {
+      throw new Error(`Transaction is not active (state: ${this.state})`);
+    }
+    return {
+      connectionProperties: [{ key: "session_id", value: this.sessionId }],
+    };
+  }
+
+  async commit(): Promise<void> {
+    this.orm.logger.info("[Transaction:commit] Committing transaction", {
+      sessionId: this.sessionId,
+    });
+    await this.finish("COMMIT TRANSACTION");
+    this.state = "committed";
+  }
+
+  async rollback(): Promise<void> {
+    this.orm.logger.info("[Transaction:rollback] Rolling back transaction", {
+      sessionId: this.sessionId,
+    });
+    await this.finish("ROLLBACK TRANSACTION");
+    this.state = "rolledBack";
+  }
+
+  private async finish(statement: string): Promise<void> {
+    const options = this.queryOptions();
+    try {
+      await this.orm.bigquery.query({ query: statement, ...options });
+    } finally {
+      // Sessions otherwise stay open until they time out
+      try {
+        await this.orm.bigquery.query({
+          query: "CALL BQ.ABORT_SESSION()",
+          ...options,
+        });
+      } catch (err: any) {
+        this.orm.logger.warn(
+          "[Transaction:finish] Failed to close session:",
+          err.message
+        );
+      }
+    }
+  }
+}
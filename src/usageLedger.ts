@@ -0,0 +1,168 @@
+// src/usageLedger.ts
+import * as fs from "fs";
+
+// BigQuery's free tier covers 1 TiB of query processing per month
+export const FREE_TIER_MONTHLY_BYTES = 2 ** 40;
+
+// On-demand analysis price in USD per TiB
+export const DEFAULT_PRICE_PER_TIB = 6.25;
+
+export interface MonthlyUsage {
+  // YYYY-MM in UTC
+  month: string;
+  bytesBilled: number;
+  queries: number;
+  // Dry-run estimates of queries that are still running
+  reservedBytes: number;
+}
+
+// Bytes held for a running query until it is settled or released
+export interface UsageReservation {
+  month: string;
+  bytes: number;
+}
+
+// Retry for about 5s before giving up on a busy ledger
+const LOCK_RETRY_MS = 50;
+const LOCK_ATTEMPTS = 100;
+// A lock file older than this was left by a crashed process
+const LOCK_STALE_MS = 30_000;
+
+export function estimateQueryCost(
+  bytes: number,
+  pricePerTiB: number = DEFAULT_PRICE_PER_TIB
+): number {
+  return (bytes / 2 ** 40) * pricePerTiB;
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function emptyUsage(month: string): MonthlyUsage {
+  return { month, bytesBilled: 0, queries: 0, reservedBytes: 0 };
+}
+
+// Bytes billed per month, persisted as JSON so the budget survives restarts.
+// Updates hold an exclusively created lock file and replace the file with a
+// rename, so processes sharing a ledger neither lose updates nor read a
+// partial file.
+export class UsageLedger {
+  constructor(public filePath: string) {}
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private read(): Record<string, MonthlyUsage> {
+    if (!fs.existsSync(this.filePath)) return {};
+    return JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+  }
+
+  private async lock(): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        fs.writeFileSync(this.lockPath, String(process.pid), { flag: "wx" });
+        return;
+      } catch (err: any) {
+        if (err.code !== "EEXIST") throw err;
+      }
+      let age = 0;
+      try {
+        age = Date.now() - fs.statSync(this.lockPath).mtimeMs;
+      } catch {
+        // Released between the two calls
+        continue;
+      }
+      if (age > LOCK_STALE_MS) {
+        fs.rmSync(this.lockPath, { force: true });
+        continue;
+      }
+      if (attempt >= LOCK_ATTEMPTS) {
+        throw new Error(
+          `Usage ledger ${this.filePath} is locked by another process (${this.lockPath}).`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  // Applies fn to the month's entry under the lock and saves the result
+  private async update<R>(
+    month: string,
+    fn: (usage: MonthlyUsage) => R
+  ): Promise<R> {
+    await this.lock();
+    try {
+      const entries = this.read();
+      const usage = { ...emptyUsage(month), ...entries[month] };
+      const result = fn(usage);
+      entries[month] = usage;
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(entries, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+      return result;
+    } finally {
+      fs.rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  usage(date: Date = new Date()): MonthlyUsage {
+    const month = monthKey(date);
+    return { ...emptyUsage(month), ...this.read()[month] };
+  }
+
+  // Holds `bytes` against the month's limit while a query runs. Returns null,
+  // reserving nothing, when billed and reserved bytes would exceed the limit.
+  async reserve(
+    bytes: number,
+    limitBytes: number,
+    date: Date = new Date()
+  ): Promise<UsageReservation | null> {
+    const month = monthKey(date);
+    return this.update(month, (usage) => {
+      if (usage.bytesBilled + usage.reservedBytes + bytes > limitBytes) {
+        return null;
+      }
+      usage.reservedBytes += bytes;
+      return { month, bytes };
+    });
+  }
+
+  // Replaces a reservation with the bytes the query was actually billed
+  async settle(
+    reservation: UsageReservation,
+    bytesBilled: number
+  ): Promise<MonthlyUsage> {
+    return this.update(reservation.month, (usage) => {
+      usage.reservedBytes = Math.max(
+        usage.reservedBytes - reservation.bytes,
+        0
+      );
+      usage.bytesBilled += bytesBilled;
+      usage.queries += 1;
+      return { ...usage };
+    });
+  }
+
+  // Drops the reservation of a query that failed before it was billed
+  async release(reservation: UsageReservation): Promise<void> {
+    await this.update(reservation.month, (usage) => {
+      usage.reservedBytes = Math.max(
+        usage.reservedBytes - reservation.bytes,
+        0
+      );
+    });
+  }
+
+  async record(
+    bytesBilled: number,
+    date: Date = new Date()
+  ): Promise<MonthlyUsage> {
+    return this.update(monthKey(date), (usage) => {
+      usage.bytesBilled += bytesBilled;
+      usage.queries += 1;
+      return { ...usage };
+    });
+  }
+}
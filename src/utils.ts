@@ -1,6 +1,7 @@
 // src/utils.ts
 import { DataType } from "./dataTypes";
 import { Op, Operator } from "./op";
+import { SchemaField, normalizeType } from "./schemaDiff";
 
 export function dataTypeToSchemaField(name: string, dt: DataType): any {
   let mode = dt.allowNull === false ? "REQUIRED" : "NULLABLE";
@@ -8,6 +9,8 @@ export function dataTypeToSchemaField(name: string, dt: DataType): any {
     mode = "REPEATED";
   }
 
+  const description = dt.description ? { description: dt.description } : {};
+
   let type = dt.type;
   if (type === "STRUCT") {
     type = "STRUCT"; // or "RECORD"
@@ -15,6 +18,7 @@ export function dataTypeToSchemaField(name: string, dt: DataType): any {
       name,
       type,
       mode,
+      ...description,
       fields: Object.entries(dt.fields || {}).map(([fieldName, fieldType]) =>
         dataTypeToSchemaField(fieldName, fieldType)
       ),
@@ -24,78 +28,387 @@ export function dataTypeToSchemaField(name: string, dt: DataType): any {
       name,
       type,
       mode,
+      ...description,
       precision: dt.precision,
       scale: dt.scale,
     };
   } else {
-    return { name, type, mode };
+    return { name, type, mode, ...description };
   }
 }
 
-export function buildWhereClause(
-  where: any,
-  params: Record<string, any> = {},
-  paramIndex = 0
-): { clause: string; params: Record<string, any>; nextIndex: number } {
-  if (!where) return { clause: "", params: {}, nextIndex: paramIndex };
+// Inverse of dataTypeToSchemaField for schemas read from the tables API
+export function schemaFieldToDataType(field: SchemaField): DataType {
+  const type = normalizeType(field.type);
+  const dt: DataType = { type, allowNull: field.mode !== "REQUIRED" };
+  if (field.mode === "REPEATED") dt.mode = "REPEATED";
+  if (type === "STRUCT") {
+    dt.fields = (field.fields || []).reduce((acc, f) => {
+      acc[f.name] = schemaFieldToDataType(f);
+      return acc;
+    }, {} as Record<string, DataType>);
+  }
+  if (field.precision !== undefined) dt.precision = Number(field.precision);
+  if (field.scale !== undefined) dt.scale = Number(field.scale);
+  if (field.description) dt.description = field.description;
+  return dt;
+}
 
-  const clauses: string[] = [];
-  const localParams: Record<string, any> = {};
+export interface WhereClauseOptions {
+  // Table alias used to qualify column references
+  alias?: string;
+  // Column types used to declare the type of every bound parameter
+  attributes?: Record<string, DataType>;
+}
+
+interface WhereContext {
+  params: Record<string, any>;
+  types: Record<string, any>;
+  index: number;
+  alias?: string;
+  attributes?: Record<string, DataType>;
+}
+
+// Operator keys may be given by name (`gte`) or by value (`[Op.gte]`)
+const OPERATORS_BY_KEY: Record<string, Operator> = Object.entries(Op).reduce(
+  (acc, [name, sql]) => {
+    acc[name] = name as Operator;
+    acc[sql] = name as Operator;
+    return acc;
+  },
+  {} as Record<string, Operator>
+);
+
+function resolveOperator(key: string): Operator | undefined {
+  return OPERATORS_BY_KEY[key];
+}
+
+// Dates, Buffers and BigQuery value wrappers are scalars, not operator maps
+function isPlainObject(value: any): boolean {
+  if (Object.prototype.toString.call(value) !== "[object Object]") {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function bind(ctx: WhereContext, value: any, type?: any): string {
+  const paramName = `param${ctx.index++}`;
+  ctx.params[paramName] = value;
+  if (type !== undefined) {
+    ctx.types[paramName] = type;
+  }
+  return `@${paramName}`;
+}
 
+// Resolves the attribute for a (possibly dotted STRUCT) key
+function columnType(ctx: WhereContext, key: string): DataType | undefined {
+  const [head, ...rest] = key.split(".");
+  let dt = ctx.attributes?.[head];
+  for (const part of rest) {
+    dt = dt?.fields?.[part];
+  }
+  return dt;
+}
+
+// Parameter type of a single value of the column (an element for ARRAY columns)
+function elementParamType(dt?: DataType): any {
+  return dt ? dataTypeToParamType({ ...dt, mode: undefined }) : undefined;
+}
+
+function arrayParamType(dt?: DataType): any {
+  return dt ? [elementParamType(dt)] : undefined;
+}
+
+function quoteColumn(ctx: WhereContext, key: string): string {
+  // Dotted keys address STRUCT fields
+  const path = key
+    .split(".")
+    .map((part) => `\`${part}\``)
+    .join(".");
+  return ctx.alias ? `\`${ctx.alias}\`.${path}` : path;
+}
+
+function joinAnd(conditions: string[]): string {
+  return conditions.filter((c) => c).join(" AND ");
+}
+
+function joinGroup(op: "and" | "or", parts: string[]): string {
+  if (!parts.length) return op === "and" ? "TRUE" : "FALSE";
+  if (parts.length === 1) return parts[0];
+  return `(${parts.map((p) => `(${p})`).join(` ${Op[op]} `)})`;
+}
+
+// An object groups its entries as separate conditions; an array lists them
+function groupItems(value: any): any[] {
+  if (Array.isArray(value)) return value;
+  if (isPlainObject(value)) {
+    return Object.entries(value).map(([k, v]) => ({ [k]: v }));
+  }
+  throw new Error("Op.and/Op.or/Op.not expect an array or object");
+}
+
+function compileWhere(where: any, ctx: WhereContext): string {
+  const conditions: string[] = [];
   for (const [key, value] of Object.entries(where)) {
-    if (key === "and" || key === "or") {
-      const subResults = (value as any[]).reduce(
-        (acc, subCondition) => {
-          const {
-            clause,
-            params: subParams,
-            nextIndex,
-          } = buildWhereClause(subCondition, acc.paramsAcc, acc.indexAcc);
-          return {
-            clauseAcc: [...acc.clauseAcc, `(${clause})`],
-            paramsAcc: { ...acc.paramsAcc, ...subParams },
-            indexAcc: nextIndex,
-          };
-        },
-        {
-          clauseAcc: [] as string[],
-          paramsAcc: {} as Record<string, any>,
-          indexAcc: paramIndex,
-        }
+    if (value === undefined) continue;
+    const op = resolveOperator(key);
+    if (op === "and" || op === "or") {
+      conditions.push(
+        joinGroup(
+          op,
+          groupItems(value).map((item) => compileWhere(item, ctx) || "TRUE")
+        )
+      );
+    } else if (op === "not") {
+      const inner = joinGroup(
+        "and",
+        groupItems(value).map((item) => compileWhere(item, ctx) || "TRUE")
       );
-      clauses.push(subResults.clauseAcc.join(` ${Op[key as Operator]} `));
-      Object.assign(localParams, subResults.paramsAcc);
-      paramIndex = subResults.indexAcc;
-    } else if (Array.isArray(value)) {
-      const paramNames = value
-        .map((v) => {
-          const paramName = `param${paramIndex++}`;
-          localParams[paramName] = v;
-          return `@${paramName}`;
-        })
-        .join(", ");
-      clauses.push(`\`${key}\` IN (${paramNames})`);
-    } else if (
-      typeof value === "object" &&
-      value !== null &&
-      !Array.isArray(value)
-    ) {
-      const opKey = Object.keys(value)[0] as Operator;
-      const opVal = value[opKey as keyof typeof value];
-      const sqlOp = Op[opKey] || "=";
-      const paramName = `param${paramIndex++}`;
-      clauses.push(`\`${key}\` ${sqlOp} @${paramName}`);
-      localParams[paramName] = opVal;
+      conditions.push(`NOT (${inner})`);
     } else {
-      const paramName = `param${paramIndex++}`;
-      clauses.push(`\`${key}\` = @${paramName}`);
-      localParams[paramName] = value;
+      conditions.push(
+        compileField(quoteColumn(ctx, key), value, ctx, columnType(ctx, key))
+      );
+    }
+  }
+  return joinAnd(conditions);
+}
+
+function compileField(
+  column: string,
+  value: any,
+  ctx: WhereContext,
+  dt?: DataType
+): string {
+  if (value === null) {
+    return `${column} IS NULL`;
+  }
+  if (Array.isArray(value) && dt?.mode !== "REPEATED") {
+    return compileOperator(column, "in", value, ctx, dt);
+  }
+  if (isPlainObject(value)) {
+    const conditions = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([key, v]) => {
+        const op = resolveOperator(key);
+        if (!op) {
+          throw new Error(`Unknown operator "${key}" for column ${column}`);
+        }
+        return compileOperator(column, op, v, ctx, dt);
+      });
+    return joinAnd(conditions) || "TRUE";
+  }
+  return compileEquality(column, "=", value, ctx, dt);
+}
+
+function paramType(dt?: DataType): any {
+  return dt ? dataTypeToParamType(dt) : undefined;
+}
+
+// BigQuery has no = or != on ARRAYs, so REPEATED columns are compared as
+// JSON: equal when they hold the same elements in the same order
+function compileEquality(
+  column: string,
+  op: "=" | "!=",
+  value: any,
+  ctx: WhereContext,
+  dt?: DataType
+): string {
+  if (dt?.mode !== "REPEATED") {
+    return `${column} ${op} ${bind(ctx, value, paramType(dt))}`;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(
+      `${column} is an ARRAY column; compare it with an array, or use Op.contains to match an element`
+    );
+  }
+  return `TO_JSON_STRING(${column}) ${op} TO_JSON_STRING(${bind(
+    ctx,
+    value,
+    paramType(dt)
+  )})`;
+}
+
+function compileOperator(
+  column: string,
+  op: Operator,
+  value: any,
+  ctx: WhereContext,
+  dt?: DataType
+): string {
+  switch (op) {
+    case "eq":
+      return value === null
+        ? `${column} IS NULL`
+        : compileEquality(column, "=", value, ctx, dt);
+    case "ne":
+      return value === null
+        ? `${column} IS NOT NULL`
+        : compileEquality(column, "!=", value, ctx, dt);
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+    case "like":
+    case "notLike":
+      if (value === null) {
+        throw new Error(`Op.${op} does not accept null for column ${column}`);
+      }
+      return `${column} ${Op[op]} ${bind(ctx, value, paramType(dt))}`;
+    case "in":
+    case "notIn": {
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.length) return op === "in" ? "FALSE" : "TRUE";
+      return `${column} ${Op[op]} (${values
+        .map((v) => bind(ctx, v, elementParamType(dt)))
+        .join(", ")})`;
+    }
+    case "between":
+    case "notBetween":
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Error(
+          `Op.${op} expects a [start, end] pair for column ${column}`
+        );
+      }
+      return `${column} ${Op[op]} ${bind(
+        ctx,
+        value[0],
+        paramType(dt)
+      )} AND ${bind(ctx, value[1], paramType(dt))}`;
+    case "is":
+    case "isNot":
+      if (value === null || typeof value === "boolean") {
+        const literal = value === null ? "NULL" : String(value).toUpperCase();
+        return `${column} ${Op[op]} ${literal}`;
+      }
+      throw new Error(
+        `Op.${op} only accepts null, true or false for column ${column}`
+      );
+    case "not":
+      if (value === null || typeof value === "boolean") {
+        return compileOperator(column, "isNot", value, ctx, dt);
+      }
+      if (Array.isArray(value) && dt?.mode !== "REPEATED") {
+        return compileOperator(column, "notIn", value, ctx, dt);
+      }
+      if (isPlainObject(value)) {
+        return `NOT (${compileField(column, value, ctx, dt)})`;
+      }
+      return compileEquality(column, "!=", value, ctx, dt);
+    case "and":
+    case "or":
+      return joinGroup(
+        op,
+        (Array.isArray(value)
+          ? value
+          : Object.entries(value).map(([k, v]) => ({ [k]: v }))
+        ).map((item: any) => compileField(column, item, ctx, dt))
+      );
+    case "any":
+      if (!Array.isArray(value)) {
+        throw new Error(`Op.any expects an array for column ${column}`);
+      }
+      if (!value.length) return "FALSE";
+      return `${column} IN UNNEST(${bind(ctx, value, arrayParamType(dt))})`;
+    case "all":
+      if (!Array.isArray(value)) {
+        throw new Error(`Op.all expects an array for column ${column}`);
+      }
+      if (!value.length) return "TRUE";
+      return `NOT EXISTS (SELECT 1 FROM UNNEST(${bind(
+        ctx,
+        value,
+        arrayParamType(dt)
+      )}) AS __elem WHERE __elem IS DISTINCT FROM ${column})`;
+    case "contains": {
+      // ARRAY column holds every given value
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.length) return "TRUE";
+      return joinGroup(
+        "and",
+        values.map(
+          (v) => `${bind(ctx, v, elementParamType(dt))} IN UNNEST(${column})`
+        )
+      );
     }
+    case "contained":
+      // Every element of the ARRAY column is among the given values
+      if (!Array.isArray(value)) {
+        throw new Error(`Op.contained expects an array for column ${column}`);
+      }
+      if (!value.length) {
+        return `NOT EXISTS (SELECT 1 FROM UNNEST(${column}))`;
+      }
+      return `NOT EXISTS (SELECT 1 FROM UNNEST(${column}) AS __elem WHERE __elem NOT IN UNNEST(${bind(
+        ctx,
+        value,
+        arrayParamType(dt)
+      )}))`;
+    default:
+      throw new Error(`Op.${op} cannot be used in a where clause`);
+  }
+}
+
+export function buildWhereClause(
+  where: any,
+  params: Record<string, any> = {},
+  paramIndex = 0,
+  options: WhereClauseOptions = {}
+): {
+  clause: string;
+  params: Record<string, any>;
+  types: Record<string, any>;
+  nextIndex: number;
+} {
+  if (!where) {
+    return { clause: "", params: {}, types: {}, nextIndex: paramIndex };
   }
 
+  const ctx: WhereContext = {
+    params: {},
+    types: {},
+    index: paramIndex,
+    alias: options.alias,
+    attributes: options.attributes,
+  };
+  const clause = compileWhere(where, ctx);
+
   return {
-    clause: clauses.join(" AND "),
-    params: localParams,
-    nextIndex: paramIndex,
+    clause,
+    params: ctx.params,
+    types: ctx.types,
+    nextIndex: ctx.index,
   };
 }
+
+// Query parameter type for a column, in the shape the BigQuery client
+// accepts in `types` (strings, STRUCT objects and single-element arrays)
+export function dataTypeToParamType(dt: DataType): any {
+  let base: any;
+  if (dt.type === "STRUCT") {
+    base = Object.entries(dt.fields || {}).reduce((acc, [name, field]) => {
+      acc[name] = dataTypeToParamType(field);
+      return acc;
+    }, {} as Record<string, any>);
+  } else if (dt.type === "INTERVAL") {
+    // The client has no INTERVAL parameter type
+    base = "STRING";
+  } else {
+    base = dt.type;
+  }
+  return dt.mode === "REPEATED" ? [base] : base;
+}
+
+// Request bodies are JSON, which cannot carry bigint values
+export function serializeParamValue(value: any): any {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(serializeParamValue);
+  if (isPlainObject(value)) {
+    return Object.keys(value).reduce((acc, key) => {
+      acc[key] = serializeParamValue(value[key]);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+}
@@ -0,0 +1,334 @@
+// src/validation.ts
+import { DataType } from "./dataTypes";
+
+// Custom validators throw to reject a value
+export type CustomValidator = (value: any, record: Record<string, any>) => void;
+
+export interface AttributeValidators {
+  isEmail?: boolean;
+  len?: [number, number];
+  min?: number;
+  max?: number;
+  isIn?: any[];
+  is?: RegExp;
+  // Any other function-valued key is run as a custom validator
+  [name: string]: any;
+}
+
+export interface ValidationErrorItem {
+  path: string;
+  message: string;
+  validator: string;
+  value: any;
+}
+
+export class ValidationError extends Error {
+  public errors: ValidationErrorItem[];
+
+  constructor(errors: ValidationErrorItem[]) {
+    super(
+      `Validation failed: ${errors
+        .map((e) => `${e.path}: ${e.message}`)
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.errors = errors;
+  }
+
+  // Messages grouped by attribute path
+  get fieldErrors(): Record<string, string[]> {
+    return this.errors.reduce((acc, e) => {
+      (acc[e.path] ||= []).push(e.message);
+      return acc;
+    }, {} as Record<string, string[]>);
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+)(?:\.(\d+))?$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DATETIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:[ T]\d{1,2}:\d{2}:\d{2}(?:\.\d{1,6})?)?$/;
+const TIME_PATTERN = /^\d{1,2}:\d{2}:\d{2}(?:\.\d{1,6})?$/;
+
+const INT64_MAX = "9223372036854775807";
+const INT64_MIN_ABS = "9223372036854775808";
+
+// Default precision/scale of the unparameterized decimal types
+const DECIMAL_DEFAULTS: Record<string, [number, number]> = {
+  NUMERIC: [38, 9],
+  DECIMAL: [38, 9],
+  BIGNUMERIC: [76, 38],
+};
+
+// Compares digit strings without BigInt so large INT64 values stay exact
+function digitsWithin(digits: string, limit: string): boolean {
+  const trimmed = digits.replace(/^0+/, "") || "0";
+  if (trimmed.length !== limit.length) return trimmed.length < limit.length;
+  return trimmed <= limit;
+}
+
+// The BigQuery client wraps DATE/DATETIME/TIME/TIMESTAMP values in objects
+// exposing the literal as `value`
+function unwrap(value: any): any {
+  if (
+    value &&
+    typeof value === "object" &&
+    !(value instanceof Date) &&
+    typeof value.value === "string"
+  ) {
+    return value.value;
+  }
+  return value;
+}
+
+function isValidCalendarDate(match: RegExpMatchArray): boolean {
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+function checkType(dt: DataType, value: any): string | null {
+  const raw = unwrap(value);
+  switch (dt.type) {
+    case "STRING":
+      return typeof raw === "string" ? null : "must be a string";
+    case "BOOL":
+      return typeof raw === "boolean" ? null : "must be a boolean";
+    case "INT64": {
+      let digits: string;
+      if (typeof raw === "number") {
+        if (!Number.isInteger(raw)) return "must be an integer";
+        if (!Number.isSafeInteger(raw)) {
+          return "exceeds the safe integer range; pass a string or bigint";
+        }
+        return null;
+      } else if (typeof raw === "bigint" || typeof raw === "string") {
+        digits = String(raw).trim();
+      } else {
+        return "must be an integer";
+      }
+      if (!INTEGER_PATTERN.test(digits)) return "must be an integer";
+      const negative = digits.startsWith("-");
+      const abs = digits.replace(/^[+-]/, "");
+      return digitsWithin(abs, negative ? INT64_MIN_ABS : INT64_MAX)
+        ? null
+        : "is outside the INT64 range";
+    }
+    case "FLOAT64":
+      if (typeof raw === "number") return null;
+      return typeof raw === "string" && raw.trim() !== "" && !isNaN(+raw)
+        ? null
+        : "must be a number";
+    case "NUMERIC":
+    case "DECIMAL":
+    case "BIGNUMERIC": {
+      const text =
+        typeof raw === "number" || typeof raw === "string"
+          ? String(raw).trim()
+          : raw && typeof raw.toFixed === "function"
+          ? raw.toString()
+          : null;
+      if (text === null) return "must be a decimal number";
+      if (typeof raw === "number" && !Number.isFinite(raw)) {
+        return "must be a finite number";
+      }
+      // Numbers such as 1e-7 stringify in exponent form
+      const normalized = /e/i.test(text)
+        ? Number(text).toLocaleString("en-US", {
+            useGrouping: false,
+            maximumFractionDigits: 20,
+          })
+        : text;
+      const match = normalized.match(DECIMAL_PATTERN);
+      if (!match) return "must be a decimal number";
+      const [defaultPrecision, defaultScale] = DECIMAL_DEFAULTS[dt.type];
+      const precision = dt.precision ?? defaultPrecision;
+      const scale = dt.scale ?? defaultScale;
+      const integerDigits = match[1].replace(/^0+/, "").length;
+      const fractionDigits = (match[2] || "").replace(/0+$/, "").length;
+      if (fractionDigits > scale) {
+        return `must have at most ${scale} decimal places`;
+      }
+      if (integerDigits > precision - scale) {
+        return `must have at most ${precision - scale} integer digits`;
+      }
+      return null;
+    }
+    case "DATE": {
+      if (raw instanceof Date) {
+        return isNaN(raw.getTime()) ? "must be a valid date" : null;
+      }
+      const match = typeof raw === "string" ? raw.match(DATE_PATTERN) : null;
+      return match && isValidCalendarDate(match)
+        ? null
+        : "must be a date in YYYY-MM-DD format";
+    }
+    case "DATETIME":
+      if (raw instanceof Date) {
+        return isNaN(raw.getTime()) ? "must be a valid datetime" : null;
+      }
+      return typeof raw === "string" && DATETIME_PATTERN.test(raw)
+        ? null
+        : "must be a datetime in YYYY-MM-DD HH:MM:SS format";
+    case "TIME":
+      return typeof raw === "string" && TIME_PATTERN.test(raw)
+        ? null
+        : "must be a time in HH:MM:SS format";
+    case "TIMESTAMP": {
+      if (raw instanceof Date) {
+        return isNaN(raw.getTime()) ? "must be a valid timestamp" : null;
+      }
+      if (typeof raw === "number") return null;
+      return typeof raw === "string" && !isNaN(Date.parse(raw))
+        ? null
+        : "must be a valid timestamp";
+    }
+    case "BYTES":
+      return typeof raw === "string" || Buffer.isBuffer(raw)
+        ? null
+        : "must be a Buffer or base64 string";
+    case "STRUCT":
+      return raw && typeof raw === "object" && !Array.isArray(raw)
+        ? null
+        : "must be an object";
+    default:
+      // JSON, GEOGRAPHY and INTERVAL accept several representations
+      return null;
+  }
+}
+
+function runValidators(
+  validators: AttributeValidators,
+  value: any,
+  path: string,
+  record: Record<string, any>,
+  errors: ValidationErrorItem[]
+) {
+  const fail = (validator: string, message: string) =>
+    errors.push({ path, message, validator, value });
+
+  for (const [name, rule] of Object.entries(validators)) {
+    if (rule === undefined || rule === false) continue;
+    switch (name) {
+      case "isEmail":
+        if (!EMAIL_PATTERN.test(String(value))) {
+          fail(name, "must be a valid email address");
+        }
+        break;
+      case "len": {
+        const [min, max] = rule as [number, number];
+        const length = String(value).length;
+        if (length < min || length > max) {
+          fail(name, `length must be between ${min} and ${max}`);
+        }
+        break;
+      }
+      case "min":
+        if (Number(value) < rule) fail(name, `must be at least ${rule}`);
+        break;
+      case "max":
+        if (Number(value) > rule) fail(name, `must be at most ${rule}`);
+        break;
+      case "isIn":
+        if (!(rule as any[]).includes(value)) {
+          fail(name, `must be one of ${(rule as any[]).join(", ")}`);
+        }
+        break;
+      case "is":
+        if (!(rule as RegExp).test(String(value))) {
+          fail(name, `must match ${rule}`);
+        }
+        break;
+      default:
+        if (typeof rule === "function") {
+          try {
+            rule(value, record);
+          } catch (err: any) {
+            fail(name, err?.message || "is invalid");
+          }
+        }
+    }
+  }
+}
+
+function validateValue(
+  dt: DataType,
+  value: any,
+  path: string,
+  record: Record<string, any>,
+  errors: ValidationErrorItem[]
+) {
+  if (value === undefined || value === null) {
+    // NULL arrays are stored as empty arrays
+    if (dt.allowNull === false && dt.mode !== "REPEATED") {
+      errors.push({
+        path,
+        message: "cannot be null",
+        validator: "notNull",
+        value,
+      });
+    }
+    return;
+  }
+
+  if (dt.mode === "REPEATED") {
+    if (!Array.isArray(value)) {
+      errors.push({
+        path,
+        message: "must be an array",
+        validator: "type",
+        value,
+      });
+      return;
+    }
+    const itemType: DataType = { ...dt, mode: undefined, allowNull: false };
+    value.forEach((item, index) =>
+      validateValue(itemType, item, `${path}[${index}]`, record, errors)
+    );
+    return;
+  }
+
+  const typeError = checkType(dt, value);
+  if (typeError) {
+    errors.push({ path, message: typeError, validator: "type", value });
+    return;
+  }
+
+  if (dt.type === "STRUCT") {
+    for (const [name, fieldType] of Object.entries(dt.fields || {})) {
+      validateValue(fieldType, value[name], `${path}.${name}`, record, errors);
+    }
+  }
+
+  if (dt.validate) {
+    runValidators(dt.validate, value, path, record, errors);
+  }
+}
+
+// Validates a record against model attributes. With `partial`, attributes
+// missing from the record are skipped (UPDATE payloads); otherwise missing
+// non-nullable attributes are reported.
+export function validateRecord(
+  attributes: Record<string, DataType>,
+  record: Record<string, any>,
+  options: { partial?: boolean } = {}
+): ValidationErrorItem[] {
+  const errors: ValidationErrorItem[] = [];
+  for (const [field, dt] of Object.entries(attributes)) {
+    if (!(field in record)) {
+      if (!options.partial && dt.allowNull === false) {
+        errors.push({
+          path: field,
+          message: `Missing required field ${field}`,
+          validator: "notNull",
+          value: undefined,
+        });
+      }
+      continue;
+    }
+    validateValue(dt, record[field], field, record, errors);
+  }
+  return errors;
+}
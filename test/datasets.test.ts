@@ -0,0 +1,98 @@
+// test/datasets.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup(config: any = { defaultDataset: "main" }) {
+  const orm = new BigQueryORM({ projectId: "p", ...config });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: string[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query.query);
+    return { rows: [] };
+  };
+  const User = orm.define(
+    "User",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      countryCode: DataTypes.STRING(),
+    },
+    { tableName: "users" }
+  );
+  const Audit = orm.define(
+    "Audit",
+    { id: DataTypes.INTEGER({ primaryKey: true }) },
+    { tableName: "audit", dataset: "logs" }
+  );
+  const Country = orm.define(
+    "Country",
+    { code: DataTypes.STRING({ primaryKey: true }) },
+    {
+      tableName: "countries",
+      primaryKey: "code",
+      dataset: "reference",
+      projectId: "shared",
+    }
+  );
+  User.belongsTo(Country, { foreignKey: "countryCode", as: "country" });
+  return { orm, User, Audit, Country, queries };
+}
+
+describe("datasets and projects", () => {
+  it("resolves the dataset from the call, the model, then defaultDataset", async () => {
+    const { User, Audit, queries } = setup();
+    await User.findAll();
+    await User.findAll("staging");
+    await Audit.findAll();
+    await Audit.findAll("archive");
+    expect(queries.map((q) => q.match(/FROM `([^`]+)`/)![1])).toEqual([
+      "p.main.users",
+      "p.staging.users",
+      "p.logs.audit",
+      "p.archive.audit",
+    ]);
+  });
+
+  it("reads included models with their own dataset and project from there", async () => {
+    const { User, Country, queries } = setup();
+    await User.findAll("staging", {
+      include: [{ model: Country, as: "country" }],
+    });
+    expect(queries[0]).toContain("FROM `p.staging.users` AS `users`");
+    expect(queries[0]).toContain(
+      "JOIN `shared.reference.countries` AS `country`"
+    );
+  });
+
+  it("fails without any dataset to use", async () => {
+    const { User } = setup({});
+    await expect(User.findAll()).rejects.toThrow(
+      "pass one, set the model's dataset or the ORM's defaultDataset."
+    );
+  });
+
+  it("syncs each model in the ORM's project into its own dataset", async () => {
+    const { orm } = setup();
+    const datasets: string[] = [];
+    orm.bigquery = {
+      dataset: (name: string) => {
+        datasets.push(name);
+        return {
+          exists: async () => [false],
+          table: (tableName: string) => ({ id: tableName }),
+        };
+      },
+    } as any;
+
+    const reports = await orm.sync({ dryRun: true });
+    expect(datasets).toEqual(["main", "logs"]);
+    expect(reports.map((r) => r.tableName)).toEqual(["users", "audit"]);
+
+    datasets.length = 0;
+    const staging = await orm.sync("logs", { dryRun: true });
+    expect(datasets).toEqual(["logs"]);
+    // Models pinned to another dataset or project are left alone
+    expect(staging.map((r) => r.tableName)).toEqual(["users", "audit"]);
+    expect(orm.modelsIn("staging").map((m) => m.tableName)).toEqual(["users"]);
+  });
+});
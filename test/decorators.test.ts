@@ -0,0 +1,109 @@
+// test/decorators.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+import {
+  BelongsTo,
+  Column,
+  HasMany,
+  PrimaryKey,
+  Table,
+  isDecoratedModel,
+  modelDefinition,
+} from "../src/decorators";
+import { Model } from "../src/model";
+
+// The decorators are applied by hand, as `experimentalDecorators` would, so
+// the test does not depend on the transpiler's decorator support
+function define() {
+  class Base extends Model {
+    declare createdAt: Date | null;
+  }
+  Column(DataTypes.DATE())(Base.prototype, "createdAt");
+
+  class User extends Base {
+    declare id: number;
+    declare name: string | null;
+    declare posts: Post[];
+  }
+  Column(DataTypes.INTEGER({ allowNull: false }))(User.prototype, "id");
+  PrimaryKey(User.prototype, "id");
+  Column(DataTypes.STRING())(User.prototype, "name");
+  HasMany(() => Post, { foreignKey: "userId" })(User.prototype, "posts");
+  Table({ tableName: "users", partitionBy: "createdAt" })(User);
+
+  class Post extends Model {
+    declare id: number;
+    declare userId: number;
+    declare author: User;
+  }
+  Column(DataTypes.INTEGER())(Post.prototype, "id");
+  PrimaryKey(Post.prototype, "id");
+  Column(DataTypes.INTEGER())(Post.prototype, "userId");
+  BelongsTo(() => User, { foreignKey: "userId" })(Post.prototype, "author");
+  Table()(Post);
+
+  return { Base, User, Post };
+}
+
+describe("decorators", () => {
+  it("collects columns, inherited columns and table options", () => {
+    const { Base, User } = define();
+    expect(isDecoratedModel(User)).toBe(true);
+    expect(isDecoratedModel(Base)).toBe(false);
+
+    const { attributes, options } = modelDefinition(User);
+    expect(Object.keys(attributes)).toEqual(["createdAt", "id", "name"]);
+    expect(attributes.id).toMatchObject({
+      type: "INT64",
+      primaryKey: true,
+      allowNull: false,
+    });
+    expect(options).toEqual({
+      tableName: "users",
+      timePartitioning: { type: "DAY", field: "createdAt" },
+    });
+  });
+
+  it("registers classes with addModels and wires their associations", async () => {
+    const { User, Post } = define();
+    const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+    orm.logger = { info() {}, warn() {}, error() {} } as any;
+    const queries: string[] = [];
+    orm.runQuery = async (query: any) => {
+      queries.push(query.query);
+      return {
+        rows: [
+          { users_id: 1, users_name: "Ann", posts_id: 7, posts_userId: 1 },
+        ],
+      };
+    };
+    orm.addModels([User, Post]);
+
+    expect(orm.models.User).toBe(User);
+    expect(User.primaryKey).toBe("id");
+    expect(Post.tableName).toBe("post");
+    expect(User.associations.posts.type).toBe("hasMany");
+    expect(Post.associations.author.type).toBe("belongsTo");
+
+    const [user] = await User.findAll({
+      attributes: ["id", "name"],
+      include: [{ model: Post, as: "posts" }],
+    });
+    expect(queries[0]).toContain(
+      "LEFT OUTER JOIN `p.d.post` AS `posts` ON `users`.`id` = `posts`.`userId`"
+    );
+    expect(user).toBeInstanceOf(User);
+    expect(user.name).toBe("Ann");
+    expect(user.posts.map((p: Post) => p.id)).toEqual([7]);
+  });
+
+  it("rejects a primary key without a column", () => {
+    class Broken extends Model {}
+    PrimaryKey(Broken.prototype, "id");
+    Table()(Broken);
+    expect(() => modelDefinition(Broken)).toThrow(
+      "@PrimaryKey Broken.id has no @Column"
+    );
+  });
+});
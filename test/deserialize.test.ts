@@ -0,0 +1,115 @@
+// test/deserialize.test.ts
+import { BigQuery } from "@google-cloud/bigquery";
+import { describe, expect, it } from "vitest";
+import { DataTypes } from "../src/dataTypes";
+import { deserializeRows } from "../src/deserialize";
+
+// Shaped like the Big.js instances the client returns for NUMERIC
+const big = (text: string) => ({ c: [1], toFixed: () => text });
+
+const columns = {
+  id: DataTypes.INTEGER(),
+  price: DataTypes.DECIMAL(38, 9),
+  at: DataTypes.DATE(),
+  day: DataTypes.DATEONLY(),
+  meta: DataTypes.JSON(),
+  counts: DataTypes.ARRAY(DataTypes.INTEGER()),
+  address: DataTypes.STRUCT({
+    zip: DataTypes.STRING(),
+    since: DataTypes.DATE(),
+  }),
+};
+
+const row = {
+  id: BigQuery.int("42"),
+  price: big("12345678901234567890.123456789"),
+  at: BigQuery.timestamp("2024-01-01T12:00:00.000Z"),
+  day: BigQuery.date("2024-01-01"),
+  meta: '{"a":[1,2]}',
+  counts: [BigQuery.int("1"), BigQuery.int("2")],
+  address: {
+    zip: "10115",
+    since: BigQuery.timestamp("2020-05-01T00:00:00.000Z"),
+  },
+};
+
+describe("deserializeRows", () => {
+  it("converts values to native types by attribute", () => {
+    expect(deserializeRows([row], columns)).toEqual([
+      {
+        id: 42,
+        price: "12345678901234567890.123456789",
+        at: new Date("2024-01-01T12:00:00.000Z"),
+        day: "2024-01-01",
+        meta: { a: [1, 2] },
+        counts: [1, 2],
+        address: {
+          zip: "10115",
+          since: new Date("2020-05-01T00:00:00.000Z"),
+        },
+      },
+    ]);
+  });
+
+  it("throws on INT64 values outside the safe integer range", () => {
+    expect(() =>
+      deserializeRows(
+        [{ counts: [BigQuery.int("1"), BigQuery.int("9007199254740993")] }],
+        columns
+      )
+    ).toThrow(
+      'INT64 value 9007199254740993 in counts[1] exceeds the safe integer range; set deserialize.int64 to "bigint" or "string"'
+    );
+  });
+
+  it("returns large INT64 values as bigint or string when asked", () => {
+    const rows = [{ id: BigQuery.int("9223372036854775807") }];
+    expect(deserializeRows(rows, columns, { int64: "bigint" })[0].id).toBe(
+      9223372036854775807n
+    );
+    expect(deserializeRows(rows, columns, { int64: "string" })[0].id).toBe(
+      "9223372036854775807"
+    );
+  });
+
+  it("applies the numeric, timestamp and JSON options", () => {
+    const [converted] = deserializeRows([row], columns, {
+      numeric: (value) => ({ decimal: value }),
+      timestamp: "string",
+      parseJson: false,
+    });
+    expect(converted.price).toEqual({
+      decimal: "12345678901234567890.123456789",
+    });
+    expect(converted.at).toBe("2024-01-01T12:00:00.000Z");
+    expect(converted.meta).toBe('{"a":[1,2]}');
+  });
+
+  it("converts columns without an attribute by their runtime shape", () => {
+    expect(
+      deserializeRows(
+        [
+          {
+            total: BigQuery.int("7"),
+            latest: BigQuery.timestamp("2024-01-01T00:00:00.000Z"),
+            avg: big("1.5"),
+            nested: { day: BigQuery.date("2024-01-02") },
+          },
+        ],
+        {}
+      )
+    ).toEqual([
+      {
+        total: 7,
+        latest: new Date("2024-01-01T00:00:00.000Z"),
+        avg: "1.5",
+        nested: { day: "2024-01-02" },
+      },
+    ]);
+  });
+
+  it("leaves rows untouched when disabled", () => {
+    const rows = [row];
+    expect(deserializeRows(rows, columns, { enabled: false })).toBe(rows);
+  });
+});
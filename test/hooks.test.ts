@@ -0,0 +1,138 @@
+// test/hooks.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup() {
+  const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: any[] = [];
+  const inserted: any[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query);
+    return { rows: [], statistics: { query: { numDmlAffectedRows: "0" } } };
+  };
+  orm.bigquery = {
+    dataset: () => ({
+      table: () => ({
+        insert: async (rows: any[]) => {
+          inserted.push(...rows);
+        },
+      }),
+    }),
+  } as any;
+  const User = orm.define(
+    "User",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      name: DataTypes.STRING(),
+      tenantId: DataTypes.STRING(),
+    },
+    { tableName: "users" }
+  );
+  return { orm, User, queries, inserted };
+}
+
+describe("model hooks", () => {
+  it("runs in registration order and may change the instance", async () => {
+    const { User, inserted } = setup();
+    const calls: string[] = [];
+    User.addHook("beforeCreate", async (user: any) => {
+      calls.push("first");
+      user.name = user.name.toUpperCase();
+    });
+    User.addHook("beforeCreate", () => {
+      calls.push("second");
+    });
+    User.addHook("afterCreate", (user: any) => {
+      calls.push(`after ${user.isNewRecord}`);
+    });
+
+    await User.create({ id: 1, name: "ann" });
+    expect(calls).toEqual(["first", "second", "after false"]);
+    expect(inserted).toEqual([{ id: 1, name: "ANN" }]);
+  });
+
+  it("aborts the operation when a hook throws", async () => {
+    const { User, inserted } = setup();
+    User.addHook("beforeCreate", () => {
+      throw new Error("not allowed");
+    });
+    await expect(User.create({ id: 1 })).rejects.toThrow("not allowed");
+    expect(inserted).toHaveLength(0);
+  });
+
+  it("is skipped with hooks: false and can be removed", async () => {
+    const { User } = setup();
+    let calls = 0;
+    const hook = () => {
+      calls++;
+    };
+    User.addHook("beforeCreate", hook);
+    await User.create({ id: 1 }, { hooks: false });
+    expect(calls).toBe(0);
+
+    User.removeHook("beforeCreate", hook);
+    await User.create({ id: 2 });
+    expect(calls).toBe(0);
+  });
+
+  it("lets beforeFind change the query options", async () => {
+    const { User, queries } = setup();
+    User.addHook("beforeFind", (options: any) => {
+      options.where = { ...options.where, tenantId: "t1" };
+    });
+    await User.findAll({ where: { name: "ann" } });
+    expect(queries[0].query).toContain(
+      "`users`.`name` = @param0 AND `users`.`tenantId` = @param1"
+    );
+    expect(queries[0].params).toEqual({ param0: "ann", param1: "t1" });
+  });
+
+  it("passes the affected rows to afterBulkDestroy", async () => {
+    const { User } = setup();
+    const calls: any[] = [];
+    User.addHook("beforeBulkDestroy", (options: any) => {
+      calls.push(["before", options.where]);
+    });
+    User.addHook("afterBulkDestroy", (affectedRows: number) => {
+      calls.push(["after", affectedRows]);
+    });
+    await User.destroy({ where: { id: 1 } });
+    expect(calls).toEqual([
+      ["before", { id: 1 }],
+      ["after", 0],
+    ]);
+  });
+});
+
+describe("query hooks", () => {
+  it("receive every request and its result with statistics", async () => {
+    const orm = new BigQueryORM({ projectId: "p" });
+    orm.logger = { info() {}, warn() {}, error() {} } as any;
+    orm.bigquery = {
+      createQueryJob: async () => [
+        {
+          id: "job1",
+          getQueryResults: async () => [[{ n: 1 }]],
+          getMetadata: async () => [
+            { statistics: { totalBytesProcessed: "10" } },
+          ],
+        },
+      ],
+    } as any;
+    const seen: any[] = [];
+    orm.addHook("beforeQuery", (request: any) => {
+      request.labels = { source: "test" };
+    });
+    orm.addHook("afterQuery", (request: any, result: any) => {
+      seen.push([request.labels, result.jobId, result.statistics]);
+    });
+
+    const result = await orm.runQuery({ query: "SELECT 1 AS n" });
+    expect(result.rows).toEqual([{ n: 1 }]);
+    expect(seen).toEqual([
+      [{ source: "test" }, "job1", { totalBytesProcessed: "10" }],
+    ]);
+  });
+});
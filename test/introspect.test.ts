@@ -0,0 +1,64 @@
+// test/introspect.test.ts
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+
+function setup() {
+  const orm = new BigQueryORM({ projectId: "p" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const table = () => ({
+    getMetadata: async () => [
+      {
+        type: "TABLE",
+        schema: { fields: [{ name: "id", type: "INTEGER" }] },
+      },
+    ],
+  });
+  orm.bigquery = {
+    dataset: () => ({
+      getTables: async () => [[{ id: "users" }, { id: "orders" }]],
+      table,
+    }),
+  } as any;
+  return orm;
+}
+
+describe("introspect", () => {
+  let outDir: string;
+
+  afterEach(() => {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it("skips model files that already exist", async () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "introspect-"));
+    fs.writeFileSync(path.join(outDir, "users.ts"), "// hand-edited");
+
+    const models = await setup().introspect("d", { outDir });
+
+    expect(models.map((m) => [m.tableName, !!m.skipped])).toEqual([
+      ["orders", false],
+      ["users", true],
+    ]);
+    expect(fs.readFileSync(path.join(outDir, "users.ts"), "utf8")).toBe(
+      "// hand-edited"
+    );
+    expect(fs.readFileSync(path.join(outDir, "orders.ts"), "utf8")).toContain(
+      "Orders"
+    );
+  });
+
+  it("replaces existing files with overwrite", async () => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), "introspect-"));
+    fs.writeFileSync(path.join(outDir, "users.ts"), "// hand-edited");
+
+    const models = await setup().introspect("d", { outDir, overwrite: true });
+
+    expect(models.some((m) => m.skipped)).toBe(false);
+    expect(fs.readFileSync(path.join(outDir, "users.ts"), "utf8")).toContain(
+      "Users"
+    );
+  });
+});
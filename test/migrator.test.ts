@@ -0,0 +1,118 @@
+// test/migrator.test.ts
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+
+let dir: string;
+let migrationsPath: string;
+const calls: string[] = [];
+
+function writeMigration(name: string, body = "") {
+  fs.writeFileSync(
+    path.join(migrationsPath, `${name}.js`),
+    `module.exports = {
+  async up() { globalThis.migrationCalls.push("up ${name}"); ${body} },
+  async down() { globalThis.migrationCalls.push("down ${name}"); },
+};
+`
+  );
+}
+
+// freeTierMode keeps migration state in a local file instead of a table
+function setup() {
+  const orm = new BigQueryORM({
+    projectId: "p",
+    freeTierMode: true,
+    migrationsStatePath: path.join(dir, "state.json"),
+    usageLedgerPath: path.join(dir, "usage.json"),
+    migrationLockTtlMs: 60_000,
+  });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  orm.bigquery = { dataset: () => ({ exists: async () => [true] }) } as any;
+  return orm;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrator-"));
+  migrationsPath = path.join(dir, "migrations");
+  fs.mkdirSync(migrationsPath);
+  calls.length = 0;
+  (globalThis as any).migrationCalls = calls;
+  for (const name of ["001-a", "002-b", "003-c"]) writeMigration(name);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("Migrator", () => {
+  it("runs pending migrations once, in file name order", async () => {
+    const orm = setup();
+    expect(await orm.runMigrations("d", migrationsPath)).toEqual([
+      "001-a",
+      "002-b",
+      "003-c",
+    ]);
+    expect(await orm.runMigrations("d", migrationsPath)).toEqual([]);
+    expect(calls).toEqual(["up 001-a", "up 002-b", "up 003-c"]);
+  });
+
+  it("reverts newest first down to and including `to`", async () => {
+    const orm = setup();
+    await orm.runMigrations("d", migrationsPath);
+    expect(await orm.revertTo("d", migrationsPath, "002-b")).toEqual([
+      "003-c",
+      "002-b",
+    ]);
+    expect(
+      (await orm.migrationStatus("d", migrationsPath)).map((s) => s.status)
+    ).toEqual(["executed", "pending", "pending"]);
+    await expect(orm.revertTo("d", migrationsPath, "003-c")).rejects.toThrow(
+      "Migration 003-c has not been executed."
+    );
+    expect(await orm.revertAll("d", migrationsPath)).toEqual(["001-a"]);
+  });
+
+  it("reports edited and missing migrations and refuses to run edited ones", async () => {
+    const orm = setup();
+    await orm.runMigrations("d", migrationsPath);
+    writeMigration("002-b", "/* edited */");
+    fs.unlinkSync(path.join(migrationsPath, "003-c.js"));
+    writeMigration("004-d");
+
+    const status = await orm.migrationStatus("d", migrationsPath);
+    expect(status.map((s) => [s.name, s.status, s.checksumMismatch])).toEqual([
+      ["001-a", "executed", false],
+      ["002-b", "executed", true],
+      ["004-d", "pending", false],
+      ["003-c", "missing", false],
+    ]);
+    await expect(orm.runMigrations("d", migrationsPath)).rejects.toThrow(
+      "Executed migrations were modified after they ran: 002-b."
+    );
+  });
+
+  it("refuses to run while another process holds the lock", async () => {
+    const orm = setup();
+    const lockPath = path.join(dir, "state.json.d.lock");
+    fs.writeFileSync(lockPath, "other-host:1");
+    await expect(orm.runMigrations("d", migrationsPath)).rejects.toThrow(
+      "Migrations in dataset d are locked by other-host:1."
+    );
+    expect(calls).toEqual([]);
+    expect(fs.readFileSync(lockPath, "utf8")).toBe("other-host:1");
+  });
+
+  it("takes over a lock older than the TTL and releases it afterwards", async () => {
+    const orm = setup();
+    const lockPath = path.join(dir, "state.json.d.lock");
+    fs.writeFileSync(lockPath, "crashed-host:1");
+    const old = new Date(Date.now() - 120_000);
+    fs.utimesSync(lockPath, old, old);
+
+    expect(await orm.runMigrations("d", migrationsPath)).toHaveLength(3);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+// test/paranoid.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup(config: any = {}) {
+  const orm = new BigQueryORM({
+    projectId: "p",
+    defaultDataset: "d",
+    ...config,
+  });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: string[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query.query);
+    return { rows: [], statistics: { query: { numDmlAffectedRows: "1" } } };
+  };
+  const User = orm.define(
+    "User",
+    { id: DataTypes.INTEGER({ primaryKey: true }) },
+    { tableName: "users", paranoid: true }
+  );
+  const Post = orm.define(
+    "Post",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      userId: DataTypes.INTEGER(),
+    },
+    { tableName: "posts", paranoid: true, deletedAt: "removedAt" }
+  );
+  const Tag = orm.define(
+    "Tag",
+    { id: DataTypes.INTEGER({ primaryKey: true }) },
+    { tableName: "tags" }
+  );
+  User.hasMany(Post, { foreignKey: "userId", as: "posts" });
+  return { orm, User, Post, Tag, queries };
+}
+
+describe("paranoid models", () => {
+  it("adds the deletedAt column", () => {
+    const { User, Post } = setup();
+    expect(User.attributes.deletedAt.type).toBe("TIMESTAMP");
+    expect(Post.attributes.removedAt.type).toBe("TIMESTAMP");
+  });
+
+  it("marks rows as deleted instead of deleting them", async () => {
+    const { User, queries } = setup();
+    expect(await User.destroy({ where: { id: 1 } })).toBe(1);
+    await User.destroy({ where: {} });
+    expect(queries).toEqual([
+      "UPDATE `p.d.users` SET `deletedAt` = CURRENT_TIMESTAMP() WHERE (`id` = @param0) AND `deletedAt` IS NULL",
+      "UPDATE `p.d.users` SET `deletedAt` = CURRENT_TIMESTAMP() WHERE `deletedAt` IS NULL",
+    ]);
+  });
+
+  it("deletes rows when forced", async () => {
+    const { User, queries } = setup();
+    await User.destroy({ where: { id: 1 }, force: true });
+    expect(queries).toEqual(["DELETE FROM `p.d.users` WHERE `id` = @param0"]);
+  });
+
+  it("restores soft-deleted rows", async () => {
+    const { User, queries } = setup();
+    expect(await User.restore({ where: { id: 1 } })).toBe(1);
+    expect(queries).toEqual([
+      "UPDATE `p.d.users` SET `deletedAt` = NULL WHERE (`id` = @param0) AND `deletedAt` IS NOT NULL",
+    ]);
+  });
+
+  it("refuses to restore models that are not paranoid or in free tier mode", async () => {
+    const { Tag } = setup();
+    await expect(Tag.restore({ where: { id: 1 } })).rejects.toThrow(
+      "is not paranoid; nothing to restore."
+    );
+    const { User, queries } = setup({ freeTierMode: true });
+    await expect(User.restore({ where: { id: 1 } })).rejects.toThrow(
+      "Free tier mode: RESTORE (UPDATE) not allowed."
+    );
+    expect(queries).toEqual([]);
+  });
+
+  it("leaves deleted rows out of finds and joins unless paranoid is false", async () => {
+    const { User, Post, queries } = setup();
+    await User.findAll({ where: { id: 1 } });
+    await User.findAll({ include: [{ model: Post, as: "posts" }] });
+    await User.findAll({ paranoid: false });
+    expect(queries[0]).toContain("`users`.`deletedAt` IS NULL");
+    expect(queries[1]).toContain(
+      "ON `users`.`id` = `posts`.`userId` AND `posts`.`removedAt` IS NULL"
+    );
+    expect(queries[2]).not.toContain("deletedAt` IS NULL");
+  });
+
+  it("does not update soft-deleted rows", async () => {
+    const { User, queries } = setup();
+    await User.update({ id: 2 }, { where: { id: 1 } });
+    expect(queries[0]).toMatch(
+      /WHERE \(`id` = @param\d+\) AND `deletedAt` IS NULL$/
+    );
+  });
+});
@@ -0,0 +1,72 @@
+// test/queryInterface.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { RepartitionError } from "../src/queryInterface";
+
+function setup(copy: () => Promise<void>) {
+  const orm = new BigQueryORM({ projectId: "p" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: string[] = [];
+  const deleted: string[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query.query);
+    return { rows: [{ total: 5 }] };
+  };
+  const table = (name: string) => ({
+    id: name,
+    getMetadata: async () => [
+      { schema: { fields: [{ name: "day", type: "TIMESTAMP" }] } },
+    ],
+    setMetadata: async () => [{}],
+    delete: async () => {
+      deleted.push(name);
+    },
+    copy,
+  });
+  orm.bigquery = { dataset: () => ({ table }) } as any;
+  return { qi: orm.getQueryInterface(), queries, deleted };
+}
+
+describe("QueryInterface.addPartition", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("snapshots the original and drops the snapshot after the rebuild", async () => {
+    const { qi, queries, deleted } = setup(async () => {});
+    const result = await qi.addPartition("d", "events", "day");
+    expect(result).toEqual({});
+    expect(queries.some((q) => q.startsWith("CREATE SNAPSHOT TABLE"))).toBe(
+      true
+    );
+    expect(deleted[0]).toBe("events");
+    expect(deleted.slice(1).map((n) => n.split("__")[1])).toEqual([
+      expect.stringMatching(/^repartition_/),
+      expect.stringMatching(/^snapshot_/),
+    ]);
+  });
+
+  it("retries the copy and restores the original from the snapshot", async () => {
+    vi.useFakeTimers();
+    const copy = vi.fn(async () => {
+      throw new Error("backend error");
+    });
+    const { qi, queries, deleted } = setup(copy);
+    const pending = qi
+      .addPartition("d", "events", "day", { keepSnapshot: true })
+      .catch((err) => err);
+    await vi.runAllTimersAsync();
+    const err = await pending;
+
+    expect(copy).toHaveBeenCalledTimes(3);
+    expect(err).toBeInstanceOf(RepartitionError);
+    expect(err.restored).toBe(true);
+    expect(err.stagingTable).toMatch(/^events__repartition_/);
+    expect(err.snapshot).toMatch(/^events__snapshot_/);
+    expect(queries).toContain(
+      `CREATE TABLE \`p.d.events\` CLONE \`p.d.${err.snapshot}\``
+    );
+    // Neither the staging table nor the snapshot is dropped
+    expect(deleted).toEqual(["events"]);
+  });
+});
@@ -0,0 +1,188 @@
+// test/schemaDiff.test.ts
+import { describe, expect, it } from "vitest";
+import { diffSchema, mergeSchema } from "../src/schemaDiff";
+
+const summary = (changes: ReturnType<typeof diffSchema>) =>
+  changes.map(({ kind, path, safe }) => ({ kind, path, safe }));
+
+describe("diffSchema", () => {
+  it("treats legacy type names as their standard SQL names", () => {
+    expect(
+      diffSchema(
+        [
+          { name: "id", type: "INTEGER", mode: "REQUIRED" },
+          { name: "active", type: "BOOLEAN" },
+        ],
+        [
+          { name: "ID", type: "INT64", mode: "REQUIRED" },
+          { name: "active", type: "BOOL", mode: "NULLABLE" },
+        ]
+      )
+    ).toEqual([]);
+  });
+
+  it("widens top-level numeric columns in place", () => {
+    expect(
+      summary(
+        diffSchema(
+          [
+            { name: "count", type: "INTEGER" },
+            { name: "price", type: "NUMERIC" },
+          ],
+          [
+            { name: "count", type: "NUMERIC" },
+            { name: "price", type: "BIGNUMERIC" },
+          ]
+        )
+      )
+    ).toEqual([
+      { kind: "widenType", path: "count", safe: true },
+      { kind: "widenType", path: "price", safe: true },
+    ]);
+  });
+
+  it("flags narrowing, unrelated and nested type changes as unsafe", () => {
+    const changes = diffSchema(
+      [
+        { name: "price", type: "FLOAT" },
+        { name: "name", type: "STRING" },
+        {
+          name: "address",
+          type: "RECORD",
+          fields: [{ name: "zip", type: "INTEGER" }],
+        },
+      ],
+      [
+        { name: "price", type: "INT64" },
+        { name: "name", type: "BYTES" },
+        {
+          name: "address",
+          type: "STRUCT",
+          fields: [{ name: "zip", type: "NUMERIC" }],
+        },
+      ]
+    );
+    expect(
+      changes.map(({ kind, path, safe, reason }) => ({
+        kind,
+        path,
+        safe,
+        reason,
+      }))
+    ).toEqual([
+      {
+        kind: "changeType",
+        path: "price",
+        safe: false,
+        reason: "FLOAT64 cannot be converted to INT64 in place",
+      },
+      {
+        kind: "changeType",
+        path: "name",
+        safe: false,
+        reason: "STRING cannot be converted to BYTES in place",
+      },
+      {
+        kind: "widenType",
+        path: "address.zip",
+        safe: false,
+        reason: "Nested field types cannot be changed in place",
+      },
+    ]);
+  });
+
+  it("only allows relaxing REQUIRED to NULLABLE", () => {
+    expect(
+      summary(
+        diffSchema(
+          [
+            { name: "a", type: "STRING", mode: "REQUIRED" },
+            { name: "b", type: "STRING" },
+            { name: "c", type: "STRING", mode: "REPEATED" },
+          ],
+          [
+            { name: "a", type: "STRING" },
+            { name: "b", type: "STRING", mode: "REQUIRED" },
+            { name: "c", type: "STRING" },
+          ]
+        )
+      )
+    ).toEqual([
+      { kind: "relaxMode", path: "a", safe: true },
+      { kind: "changeMode", path: "b", safe: false },
+      { kind: "changeMode", path: "c", safe: false },
+    ]);
+  });
+
+  it("adds optional columns and nested fields but never drops or adds REQUIRED ones", () => {
+    expect(
+      summary(
+        diffSchema(
+          [
+            { name: "id", type: "INT64" },
+            { name: "legacy", type: "STRING" },
+            { name: "address", type: "STRUCT", fields: [] },
+          ],
+          [
+            { name: "id", type: "INT64" },
+            { name: "tags", type: "STRING", mode: "REPEATED" },
+            { name: "email", type: "STRING", mode: "REQUIRED" },
+            {
+              name: "address",
+              type: "STRUCT",
+              fields: [{ name: "zip", type: "STRING" }],
+            },
+          ]
+        )
+      )
+    ).toEqual([
+      { kind: "addColumn", path: "tags", safe: true },
+      { kind: "addColumn", path: "email", safe: false },
+      { kind: "addColumn", path: "address.zip", safe: true },
+      { kind: "dropColumn", path: "legacy", safe: false },
+    ]);
+  });
+});
+
+describe("mergeSchema", () => {
+  it("applies only the additive changes to the live schema", () => {
+    expect(
+      mergeSchema(
+        [
+          { name: "id", type: "INTEGER", mode: "REQUIRED" },
+          { name: "legacy", type: "STRING" },
+          {
+            name: "address",
+            type: "RECORD",
+            fields: [{ name: "zip", type: "STRING" }],
+          },
+        ],
+        [
+          { name: "id", type: "NUMERIC" },
+          { name: "email", type: "STRING", mode: "REQUIRED" },
+          { name: "tags", type: "STRING", mode: "REPEATED" },
+          {
+            name: "address",
+            type: "STRUCT",
+            fields: [
+              { name: "zip", type: "STRING" },
+              { name: "city", type: "STRING" },
+            ],
+          },
+        ]
+      )
+    ).toEqual([
+      { name: "id", type: "INTEGER", mode: "NULLABLE" },
+      { name: "legacy", type: "STRING" },
+      {
+        name: "address",
+        type: "RECORD",
+        fields: [
+          { name: "zip", type: "STRING" },
+          { name: "city", type: "STRING" },
+        ],
+      },
+      { name: "tags", type: "STRING", mode: "REPEATED" },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+// test/scopes.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup() {
+  const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: string[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query.query);
+    return { rows: [], statistics: { query: { numDmlAffectedRows: "0" } } };
+  };
+  const User = orm.define(
+    "User",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      active: DataTypes.BOOLEAN(),
+    },
+    { tableName: "users" }
+  );
+  const Post = orm.define(
+    "Post",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      userId: DataTypes.INTEGER(),
+      title: DataTypes.STRING(),
+      published: DataTypes.BOOLEAN(),
+    },
+    { tableName: "posts" }
+  );
+  User.hasMany(Post, { foreignKey: "userId", as: "posts" });
+  return { User, Post, queries };
+}
+
+describe("scopes", () => {
+  it("joins an association included by both the scope and the call once", async () => {
+    const { User, Post, queries } = setup();
+    User.addScope("withPosts", {
+      include: [
+        {
+          model: Post,
+          as: "posts",
+          where: { published: true },
+          attributes: ["id"],
+        },
+      ],
+    });
+    await User.scope("withPosts").findAll({
+      include: [
+        {
+          model: Post,
+          as: "posts",
+          where: { title: "x" },
+          attributes: ["title"],
+          required: true,
+        },
+      ],
+    });
+    const [sql] = queries;
+    expect(sql.match(/JOIN/g)).toHaveLength(1);
+    expect(sql).toContain("INNER JOIN");
+    expect(sql).toContain("`posts`.`published` = @param0");
+    expect(sql).toContain("`posts`.`title` = @param1");
+    expect(sql).toContain("`posts`.`id` AS `posts_id`");
+    expect(sql).toContain("`posts`.`title` AS `posts_title`");
+  });
+
+  it("merges includes of the same association across scopes", async () => {
+    const { User, Post, queries } = setup();
+    User.addScope("a", { include: [{ model: Post, as: "posts" }] });
+    User.addScope("b", {
+      include: [{ model: Post, as: "posts", required: true }],
+    });
+    await User.scope("a", "b").findAll();
+    expect(queries[0].match(/JOIN/g)).toHaveLength(1);
+  });
+
+  it("resolves a function default scope once per query", async () => {
+    const { User } = setup();
+    let calls = 0;
+    User.addScope("defaultScope", () => {
+      calls++;
+      return { where: { active: true }, limit: 10 };
+    });
+    await User.findAll();
+    expect(calls).toBe(1);
+    await User.count();
+    expect(calls).toBe(2);
+  });
+});
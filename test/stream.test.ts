@@ -0,0 +1,62 @@
+// test/stream.test.ts
+import { BigQuery } from "@google-cloud/bigquery";
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup(pages: any[][]) {
+  const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  orm.streamQuery = async function* () {
+    for (const page of pages) yield page;
+  };
+  const Event = orm.define(
+    "Event",
+    {
+      at: DataTypes.DATE({ primaryKey: true }),
+      name: DataTypes.STRING(),
+    },
+    { tableName: "events" }
+  );
+  const Tag = orm.define(
+    "Tag",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      eventAt: DataTypes.DATE(),
+    },
+    { tableName: "tags" }
+  );
+  Event.hasMany(Tag, { foreignKey: "eventAt", as: "tags" });
+  return { Event, Tag };
+}
+
+const first = "2024-01-01T00:00:00.000Z";
+const second = "2024-01-02T00:00:00.000Z";
+// The client returns TIMESTAMP values as BigQueryTimestamp wrappers
+const row = (at: string, tagId: number) => ({
+  events_at: BigQuery.timestamp(at),
+  events_name: at.slice(0, 10),
+  tags_id: tagId,
+  tags_eventAt: BigQuery.timestamp(at),
+});
+
+describe("findAllStream", () => {
+  it("keeps a record with a TIMESTAMP key together across pages", async () => {
+    const { Event, Tag } = setup([
+      [row(first, 1), row(first, 2)],
+      [row(first, 3), row(second, 4)],
+    ]);
+    const records: any[] = [];
+    for await (const event of Event.findAllStream({
+      include: [{ model: Tag, as: "tags" }],
+    })) {
+      records.push(event.toJSON());
+    }
+    expect(
+      records.map((r) => [r.at.toISOString(), r.tags.map((t: any) => t.id)])
+    ).toEqual([
+      [first, [1, 2, 3]],
+      [second, [4]],
+    ]);
+  });
+});
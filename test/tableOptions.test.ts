@@ -0,0 +1,146 @@
+// test/tableOptions.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+import {
+  tableOptionsFromMetadata,
+  toTableDdlClauses,
+  toTableMetadata,
+} from "../src/tableOptions";
+
+describe("toTableMetadata", () => {
+  it("maps partitioning and clustering to the tables API", () => {
+    const metadata = toTableMetadata({
+      timePartitioning: { type: "DAY", field: "createdAt", expirationMs: 1000 },
+      requirePartitionFilter: true,
+      clusterBy: ["country", "city"],
+      description: "Users",
+    });
+    expect(metadata).toEqual({
+      timePartitioning: {
+        type: "DAY",
+        field: "createdAt",
+        expirationMs: "1000",
+      },
+      requirePartitionFilter: true,
+      clustering: { fields: ["country", "city"] },
+      description: "Users",
+    });
+    expect(tableOptionsFromMetadata(metadata)).toEqual({
+      timePartitioning: { type: "DAY", field: "createdAt", expirationMs: 1000 },
+      requirePartitionFilter: true,
+      clusterBy: ["country", "city"],
+      description: "Users",
+    });
+  });
+
+  it("clusters by the primary key unless clusterBy is given", () => {
+    expect(toTableMetadata({}, "id")).toEqual({
+      clustering: { fields: ["id"] },
+    });
+    expect(toTableMetadata({ clusterBy: [] }, "id")).toEqual({});
+  });
+
+  it("round-trips range partitioning", () => {
+    const rangePartitioning = {
+      field: "customerId",
+      start: 0,
+      end: 1000,
+      interval: 10,
+    };
+    const metadata = toTableMetadata({ rangePartitioning, clusterBy: [] });
+    expect(metadata.rangePartitioning).toEqual({
+      field: "customerId",
+      range: { start: "0", end: "1000", interval: "10" },
+    });
+    expect(tableOptionsFromMetadata(metadata)).toEqual({
+      rangePartitioning,
+      clusterBy: [],
+    });
+  });
+
+  it("rejects invalid combinations", () => {
+    expect(() =>
+      toTableMetadata({
+        timePartitioning: { type: "DAY" },
+        rangePartitioning: { field: "a", start: 0, end: 10, interval: 1 },
+      })
+    ).toThrow("timePartitioning or rangePartitioning, not both");
+    expect(() =>
+      toTableMetadata({
+        rangePartitioning: { field: "a", start: 10, end: 0, interval: 1 },
+      })
+    ).toThrow("positive interval and end greater than start");
+    expect(() =>
+      toTableMetadata({ clusterBy: ["a", "b", "c", "d", "e"] })
+    ).toThrow("at most 4 columns");
+  });
+});
+
+describe("toTableDdlClauses", () => {
+  it("truncates the partitioning column to the partition type", () => {
+    expect(
+      toTableDdlClauses(
+        {
+          timePartitioning: {
+            type: "MONTH",
+            field: "day",
+            expirationMs: 2 * 86400000,
+          },
+          clusterBy: ["id"],
+          requirePartitionFilter: true,
+        },
+        "DATE"
+      )
+    ).toBe(
+      "PARTITION BY DATE_TRUNC(`day`, MONTH) CLUSTER BY `id` OPTIONS (require_partition_filter = true, partition_expiration_days = 2)"
+    );
+    expect(
+      toTableDdlClauses(
+        { timePartitioning: { type: "HOUR", field: "at" } },
+        "TIMESTAMP"
+      )
+    ).toBe("PARTITION BY TIMESTAMP_TRUNC(`at`, HOUR)");
+    expect(
+      toTableDdlClauses({
+        rangePartitioning: { field: "n", start: 0, end: 100, interval: 10 },
+      })
+    ).toBe("PARTITION BY RANGE_BUCKET(`n`, GENERATE_ARRAY(0, 100, 10))");
+  });
+
+  it("refuses ingestion-time partitioning of existing rows", () => {
+    expect(() =>
+      toTableDdlClauses({ timePartitioning: { type: "DAY" } })
+    ).toThrow("Ingestion-time partitioning cannot be applied");
+  });
+});
+
+describe("createTable", () => {
+  it("creates a table partitioned by partitionBy and clustered by the primary key", async () => {
+    const orm = new BigQueryORM({ projectId: "p" });
+    orm.logger = { info() {}, warn() {}, error() {} } as any;
+    const created: any[] = [];
+    orm.bigquery = {
+      dataset: () => ({
+        exists: async () => [true],
+        table: () => ({
+          exists: async () => [false],
+          create: async (options: any) => {
+            created.push(options);
+          },
+        }),
+      }),
+    } as any;
+
+    await orm
+      .getQueryInterface()
+      .createTable(
+        "d",
+        "events",
+        { id: DataTypes.INTEGER(), at: DataTypes.DATE() },
+        { partitionBy: "at", primaryKey: "id" }
+      );
+    expect(created[0].timePartitioning).toEqual({ type: "DAY", field: "at" });
+    expect(created[0].clustering).toEqual({ fields: ["id"] });
+  });
+});
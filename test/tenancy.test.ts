@@ -0,0 +1,140 @@
+// test/tenancy.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+import { runForTenants } from "../src/tenancy";
+
+function setup(config: any = {}) {
+  const orm = new BigQueryORM({
+    projectId: "p",
+    defaultDataset: "main",
+    tenantDataset: (tenantId: string) => `customer_${tenantId}`,
+    ...config,
+  });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: string[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query.query);
+    return { rows: [] };
+  };
+  const Order = orm.define(
+    "Order",
+    { id: DataTypes.INTEGER({ primaryKey: true }) },
+    { tableName: "orders" }
+  );
+  const Plan = orm.define(
+    "Plan",
+    { id: DataTypes.INTEGER({ primaryKey: true }) },
+    { tableName: "plans", dataset: "shared" }
+  );
+  return { orm, Order, Plan, queries };
+}
+
+const tables = (queries: string[]) =>
+  queries.map((q) => q.match(/FROM `([^`]+)`/)![1]);
+
+describe("tenant routing", () => {
+  it("routes model calls inside withTenant, across awaits, to the tenant's dataset", async () => {
+    const { orm, Order, Plan, queries } = setup();
+    await orm.withTenant("42", async () => {
+      expect(orm.currentTenant()).toEqual({
+        tenantId: "42",
+        dataset: "customer_42",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      await Order.findAll();
+      await Order.findAll("explicit");
+      await Plan.findAll();
+    });
+    await Order.findAll();
+    expect(orm.currentTenant()).toBeUndefined();
+    expect(tables(queries)).toEqual([
+      "p.customer_42.orders",
+      "p.explicit.orders",
+      "p.shared.plans",
+      "p.main.orders",
+    ]);
+  });
+
+  it("keeps concurrent tenants apart", async () => {
+    const { orm, Order, queries } = setup();
+    await Promise.all(
+      ["a", "b"].map((tenantId) =>
+        orm.forTenant(tenantId).run(async () => {
+          await new Promise((resolve) =>
+            setTimeout(resolve, tenantId === "a" ? 5 : 0)
+          );
+          await Order.findAll();
+        })
+      )
+    );
+    expect(tables(queries).sort()).toEqual([
+      "p.customer_a.orders",
+      "p.customer_b.orders",
+    ]);
+  });
+
+  it("fills in the dataset for the tenant's query interface", async () => {
+    const { orm } = setup();
+    const calls: any[] = [];
+    const qi = orm.getQueryInterface() as any;
+    qi.dropTable = async (...args: any[]) => {
+      calls.push([args, orm.currentTenant()?.tenantId]);
+    };
+    await orm.forTenant("7").queryInterface.dropTable("orders");
+    expect(calls).toEqual([[["customer_7", "orders"], "7"]]);
+  });
+});
+
+describe("runForTenants", () => {
+  it("limits concurrency and reports every tenant in order", async () => {
+    const { orm } = setup();
+    let running = 0;
+    let peak = 0;
+    const reports = await runForTenants(
+      orm,
+      ["1", "2", "3", "4", "5"],
+      2,
+      async (scope) => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 2));
+        running--;
+        if (scope.tenantId === "3") throw new Error("tenant 3 is broken");
+        return scope.dataset;
+      }
+    );
+    expect(peak).toBe(2);
+    expect(reports.map((r) => [r.tenantId, r.status, r.result])).toEqual([
+      ["1", "succeeded", "customer_1"],
+      ["2", "succeeded", "customer_2"],
+      ["3", "failed", undefined],
+      ["4", "succeeded", "customer_4"],
+      ["5", "succeeded", "customer_5"],
+    ]);
+    expect(reports[2].error!.message).toBe("tenant 3 is broken");
+  });
+
+  it("rejects a concurrency that is not a positive integer", async () => {
+    const { orm } = setup();
+    for (const concurrency of [0, -1, 1.5, NaN]) {
+      await expect(
+        runForTenants(orm, ["1"], concurrency, async () => null)
+      ).rejects.toThrow(
+        `Tenant concurrency must be a positive integer, got ${concurrency}.`
+      );
+    }
+  });
+
+  it("syncs the tenants from the config's resolver", async () => {
+    const { orm } = setup({ tenants: async () => ["a", "b"] });
+    const synced: string[] = [];
+    orm.sync = (async (dataset: string) => {
+      synced.push(dataset);
+      return [];
+    }) as any;
+    const reports = await orm.syncTenants({ concurrency: 1 });
+    expect(synced).toEqual(["customer_a", "customer_b"]);
+    expect(reports.every((r) => r.status === "succeeded")).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+// test/timestamps.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup(options: any = {}) {
+  const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: { query: string; params: Record<string, any> }[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push({ query: query.query, params: query.params });
+    return { rows: [], statistics: { query: { numDmlAffectedRows: "1" } } };
+  };
+  const inserted: Record<string, any>[] = [];
+  orm.bigquery = {
+    dataset: () => ({
+      table: () => ({
+        insert: async (rows: Record<string, any>[]) => {
+          inserted.push(...rows);
+        },
+      }),
+    }),
+  } as any;
+  const User = orm.define(
+    "User",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      name: DataTypes.STRING(),
+    },
+    { tableName: "users", timestamps: true, ...options }
+  );
+  return { User, queries, inserted };
+}
+
+describe("timestamps", () => {
+  it("adds the columns with a NOW default, honouring renames and opt-outs", () => {
+    const { User } = setup();
+    expect(User.createdAt).toBe("createdAt");
+    expect(User.attributes.updatedAt).toMatchObject({
+      type: "TIMESTAMP",
+      defaultValue: DataTypes.NOW,
+    });
+
+    const { User: Log } = setup({
+      createdAt: "created_at",
+      updatedAt: false,
+      timestampType: "DATETIME",
+    });
+    expect(Log.createdAt).toBe("created_at");
+    expect(Log.updatedAt).toBeUndefined();
+    expect(Log.attributes.created_at).toMatchObject({
+      type: "DATETIME",
+      defaultValue: DataTypes.NOW_DATETIME,
+    });
+    expect(Log.attributes.updatedAt).toBeUndefined();
+  });
+
+  it("sets both columns on create", async () => {
+    const { User, inserted } = setup();
+    const user = await User.create({ id: 1, name: "Ann" });
+    expect(Object.keys(inserted[0])).toEqual([
+      "id",
+      "name",
+      "createdAt",
+      "updatedAt",
+    ]);
+    expect(user.get("createdAt")).toBeInstanceOf(Date);
+    expect(user.get("updatedAt")).toBeInstanceOf(Date);
+  });
+
+  it("stamps updatedAt in bulk updates unless the data sets it", async () => {
+    const { User, queries } = setup();
+    await User.update({ name: "Bo" }, { where: { id: 1 } });
+    await User.update({ name: "Bo", updatedAt: null }, { where: { id: 1 } });
+    expect(queries[0].query).toContain("`updatedAt` = CURRENT_TIMESTAMP()");
+    expect(queries[0].query).not.toContain("`createdAt`");
+    expect(queries[1].query).not.toContain("CURRENT_TIMESTAMP()");
+  });
+
+  it("stamps DATETIME columns with CURRENT_DATETIME", async () => {
+    const { User, queries } = setup({ timestampType: "DATETIME" });
+    await User.increment("id", { where: { id: 1 } });
+    expect(queries[0].query).toContain("`updatedAt` = CURRENT_DATETIME()");
+  });
+
+  it("refreshes updatedAt, not createdAt, on the update branch of upsert", async () => {
+    const { User, queries } = setup();
+    await User.upsert({ id: 1, name: "Ann" });
+    const merge = queries.find((q) => q.query.startsWith("MERGE"))!.query;
+    const [, updateSet] = merge.match(
+      /WHEN MATCHED THEN UPDATE SET (.*?) WHEN/
+    )!;
+    expect(updateSet).toContain("`updatedAt`");
+    expect(updateSet).not.toContain("`createdAt`");
+    expect(merge).toMatch(/INSERT \(.*`createdAt`.*\)/);
+  });
+
+  it("adds updatedAt to the fields saved by an instance", async () => {
+    const { User, queries } = setup();
+    const user = await User.create({ id: 1, name: "Ann" });
+    const createdAt = user.get("createdAt");
+    queries.length = 0;
+    user.set("name", "Bo");
+    await user.save();
+    expect(queries[0].query).toMatch(
+      /^UPDATE `p\.d\.users` SET `name` = @\w+, `updatedAt` = @\w+ WHERE/
+    );
+    expect(user.get("createdAt")).toBe(createdAt);
+    expect(user.changed()).toBe(false);
+  });
+});
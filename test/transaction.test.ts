@@ -0,0 +1,99 @@
+// test/transaction.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { Transaction } from "../src/transaction";
+
+function setup(sessionId: string | null = "session-1") {
+  const orm = new BigQueryORM({ projectId: "p" });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const jobs: any[] = [];
+  const statements: any[] = [];
+  orm.bigquery = {
+    createQueryJob: async (request: any) => {
+      jobs.push(request);
+      return [
+        {
+          id: `job${jobs.length}`,
+          getQueryResults: async () => [[]],
+          getMetadata: async () => [
+            { statistics: { sessionInfo: { sessionId } } },
+          ],
+        },
+      ];
+    },
+    query: async (request: any) => {
+      statements.push(request);
+      return [[]];
+    },
+  } as any;
+  return { orm, jobs, statements };
+}
+
+const session = [{ key: "session_id", value: "session-1" }];
+
+describe("BigQueryORM.transaction", () => {
+  it("runs queries in the session and commits", async () => {
+    const { orm, jobs, statements } = setup();
+    let transaction!: Transaction;
+    const result = await orm.transaction("d", async (_qi, _dataset, t) => {
+      transaction = t;
+      await orm.runQuery({ query: "UPDATE x SET a = 1" }, { transaction: t });
+      return "done";
+    });
+
+    expect(result).toBe("done");
+    expect(jobs[0]).toEqual({
+      query: "BEGIN TRANSACTION",
+      createSession: true,
+    });
+    expect(jobs[1].connectionProperties).toEqual(session);
+    expect(statements).toEqual([
+      { query: "COMMIT TRANSACTION", connectionProperties: session },
+      { query: "CALL BQ.ABORT_SESSION()", connectionProperties: session },
+    ]);
+    expect(transaction.state).toBe("committed");
+    expect(() => transaction.queryOptions()).toThrow(
+      "Transaction is not active (state: committed)"
+    );
+  });
+
+  it("rolls back, closes the session and rethrows when the callback fails", async () => {
+    const { orm, statements } = setup();
+    let transaction!: Transaction;
+    await expect(
+      orm.transaction("d", async (_qi, _dataset, t) => {
+        transaction = t;
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    expect(statements.map((s) => s.query)).toEqual([
+      "ROLLBACK TRANSACTION",
+      "CALL BQ.ABORT_SESSION()",
+    ]);
+    expect(transaction.state).toBe("rolledBack");
+  });
+
+  it("rethrows the callback's error when the rollback fails too", async () => {
+    const { orm } = setup();
+    orm.bigquery.query = (async () => {
+      throw new Error("session expired");
+    }) as any;
+    await expect(
+      orm.transaction("d", async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+  });
+
+  it("fails when BigQuery returns no session id", async () => {
+    const { orm } = setup(null);
+    let called = false;
+    await expect(
+      orm.transaction("d", async () => {
+        called = true;
+      })
+    ).rejects.toThrow("Failed to open BigQuery session for transaction");
+    expect(called).toBe(false);
+  });
+});
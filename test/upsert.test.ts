@@ -0,0 +1,92 @@
+// test/upsert.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+
+function setup(config: any = {}) {
+  const orm = new BigQueryORM({
+    projectId: "p",
+    defaultDataset: "d",
+    ...config,
+  });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const queries: any[] = [];
+  orm.runQuery = async (query: any) => {
+    queries.push(query);
+    return { rows: [], statistics: { query: { numDmlAffectedRows: "2" } } };
+  };
+  const User = orm.define(
+    "User",
+    {
+      id: DataTypes.INTEGER({ primaryKey: true }),
+      email: DataTypes.STRING(),
+      name: DataTypes.STRING(),
+      tier: DataTypes.STRING({ defaultValue: "free" }),
+    },
+    { tableName: "users" }
+  );
+  return { User, queries };
+}
+
+describe("Model.upsert", () => {
+  it("merges on the primary key and only updates the provided columns", async () => {
+    const { User, queries } = setup();
+    const user = await User.upsert({ id: 1, name: "Ann" });
+    expect(user.get({ plain: true })).toEqual({
+      id: 1,
+      name: "Ann",
+      tier: "free",
+    });
+    const [{ query, params, types }] = queries;
+    expect(query).toMatchSnapshot();
+    expect(params).toEqual({
+      rows: [{ id: 1, name: "Ann", tier: "free" }],
+    });
+    expect(types).toMatchSnapshot();
+  });
+
+  it("merges a batch on custom conflict fields", async () => {
+    const { User, queries } = setup();
+    const affected = await User.bulkUpsert(
+      [
+        { id: 1, email: "a@x.io", name: "A" },
+        { id: 2, email: "b@x.io" },
+      ],
+      { conflictFields: ["email"], updateFields: ["name"] }
+    );
+    expect(affected).toBe(2);
+    expect(queries[0].query).toMatchSnapshot();
+    expect(queries[0].params.rows[1]).toEqual({
+      id: 2,
+      email: "b@x.io",
+      name: null,
+      tier: "free",
+    });
+  });
+
+  it("rejects duplicate conflict keys within a batch", async () => {
+    const { User, queries } = setup();
+    await expect(
+      User.bulkUpsert([{ id: 1 }, { id: 1, name: "again" }])
+    ).rejects.toThrow("Duplicate conflict key within batch: [1]");
+    expect(queries).toHaveLength(0);
+  });
+
+  it("rejects rows without the conflict fields", async () => {
+    const { User } = setup();
+    await expect(User.upsert({ name: "Ann" } as any)).rejects.toThrow(
+      "Missing conflict field id for upsert"
+    );
+    await expect(
+      User.upsert({ id: 1 }, { conflictFields: ["nope"] as any })
+    ).rejects.toThrow("Unknown conflict field nope");
+  });
+
+  it("is refused in free tier mode", async () => {
+    const { User, queries } = setup({ freeTierMode: true });
+    await expect(User.upsert({ id: 1 })).rejects.toThrow(
+      "Free tier mode: UPSERT (MERGE) not allowed."
+    );
+    expect(queries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,178 @@
+// test/usageLedger.test.ts
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { UsageLedger, estimateQueryCost } from "../src/usageLedger";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "usage-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Dry runs report `estimate` bytes; finished jobs are billed `billed` bytes
+function setup(config: any, estimate: number, billed = estimate) {
+  const orm = new BigQueryORM({
+    projectId: "p",
+    usageLedgerPath: path.join(dir, "usage.json"),
+    ...config,
+  });
+  orm.logger = { info() {}, warn() {}, error() {} } as any;
+  const jobs: any[] = [];
+  orm.bigquery = {
+    createQueryJob: async (request: any) => {
+      if (request.dryRun) {
+        return [
+          { metadata: { statistics: { totalBytesProcessed: `${estimate}` } } },
+        ];
+      }
+      jobs.push(request);
+      return [
+        {
+          id: "job",
+          getQueryResults: async () => [[]],
+          getMetadata: async () => [
+            { statistics: { query: { totalBytesBilled: `${billed}` } } },
+          ],
+        },
+      ];
+    },
+  } as any;
+  return { orm, jobs };
+}
+
+describe("UsageLedger", () => {
+  it("keeps a separate total per month", async () => {
+    const ledger = new UsageLedger(path.join(dir, "usage.json"));
+    await ledger.record(100, new Date("2026-09-30T23:59:59Z"));
+    await ledger.record(50, new Date("2026-10-01T00:00:00Z"));
+    await ledger.record(25, new Date("2026-10-15T00:00:00Z"));
+
+    expect(ledger.usage(new Date("2026-09-10T00:00:00Z"))).toEqual({
+      month: "2026-09",
+      bytesBilled: 100,
+      queries: 1,
+      reservedBytes: 0,
+    });
+    expect(ledger.usage(new Date("2026-10-31T00:00:00Z"))).toMatchObject({
+      month: "2026-10",
+      bytesBilled: 75,
+      queries: 2,
+    });
+    expect(ledger.usage(new Date("2026-11-01T00:00:00Z"))).toMatchObject({
+      month: "2026-11",
+      bytesBilled: 0,
+    });
+  });
+
+  it("holds reservations against the limit until they are settled", async () => {
+    const ledger = new UsageLedger(path.join(dir, "usage.json"));
+    const first = await ledger.reserve(60, 100);
+    expect(first).not.toBeNull();
+    expect(await ledger.reserve(60, 100)).toBeNull();
+
+    await ledger.settle(first!, 10);
+    expect(ledger.usage()).toMatchObject({ bytesBilled: 10, reservedBytes: 0 });
+    expect(await ledger.reserve(60, 100)).not.toBeNull();
+  });
+
+  it("waits for another process's lock before writing", async () => {
+    const file = path.join(dir, "usage.json");
+    const ledger = new UsageLedger(file);
+    fs.writeFileSync(`${file}.lock`, "other");
+    const pending = ledger.record(5);
+    await new Promise((resolve) => setTimeout(resolve, 120));
+    expect(fs.existsSync(file)).toBe(false);
+
+    fs.rmSync(`${file}.lock`);
+    await pending;
+    expect(ledger.usage()).toMatchObject({ bytesBilled: 5, queries: 1 });
+    expect(fs.existsSync(`${file}.lock`)).toBe(false);
+  });
+
+  it("takes over a stale lock", async () => {
+    const file = path.join(dir, "usage.json");
+    fs.writeFileSync(`${file}.lock`, "crashed");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(`${file}.lock`, old, old);
+    await new UsageLedger(file).record(5);
+    expect(new UsageLedger(file).usage().bytesBilled).toBe(5);
+  });
+});
+
+describe("query budget", () => {
+  it("refuses a query above maximumBytesBilled without running it", async () => {
+    const { orm, jobs } = setup(
+      { dryRunFirst: true, maximumBytesBilled: 1000 },
+      5000
+    );
+    await expect(orm.runQuery({ query: "SELECT 1" })).rejects.toThrow(
+      "Query would process 5000 bytes, above maximumBytesBilled 1000."
+    );
+    expect(jobs).toHaveLength(0);
+  });
+
+  it("refuses a free tier query that would exceed the month's limit", async () => {
+    const { orm, jobs } = setup(
+      { freeTierMode: true, monthlyBytesLimit: 1000 },
+      400
+    );
+    await orm.runQuery({ query: "SELECT 1" });
+    await orm.runQuery({ query: "SELECT 2" });
+    await expect(orm.runQuery({ query: "SELECT 3" })).rejects.toThrow(
+      "Free tier mode: query would process 400 bytes, exceeding the 200 bytes left this month."
+    );
+    expect(jobs).toHaveLength(2);
+    expect(orm.getUsage()).toMatchObject({
+      bytesBilled: 800,
+      queries: 2,
+      reservedBytes: 0,
+      remainingBytes: 200,
+    });
+  });
+
+  it("counts running queries against the limit", async () => {
+    const { orm, jobs } = setup(
+      { freeTierMode: true, monthlyBytesLimit: 1000 },
+      400
+    );
+    const results = await Promise.allSettled(
+      [1, 2, 3].map((n) => orm.runQuery({ query: `SELECT ${n}` }))
+    );
+    expect(results.map((r) => r.status).sort()).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(jobs).toHaveLength(2);
+  });
+
+  it("settles the reservation to the bytes billed", async () => {
+    const { orm } = setup(
+      { freeTierMode: true, monthlyBytesLimit: 1000 },
+      400,
+      10
+    );
+    await orm.runQuery({ query: "SELECT 1" });
+    expect(orm.getUsage()).toMatchObject({
+      bytesBilled: 10,
+      reservedBytes: 0,
+      remainingBytes: 990,
+    });
+  });
+
+  it("estimates the on-demand cost of a query", async () => {
+    const { orm } = setup({ pricePerTiB: 5 }, 2 ** 39);
+    expect(await orm.estimateQuery({ query: "SELECT 1" })).toEqual({
+      totalBytesProcessed: 2 ** 39,
+      estimatedCost: 2.5,
+    });
+    expect(estimateQueryCost(2 ** 40)).toBe(6.25);
+  });
+});
@@ -0,0 +1,143 @@
+// test/validation.test.ts
+import { describe, expect, it } from "vitest";
+import { BigQueryORM } from "../src/bigQueryORM";
+import { DataTypes } from "../src/dataTypes";
+import { ValidationError, validateRecord } from "../src/validation";
+
+const attributes = {
+  id: DataTypes.INTEGER({ primaryKey: true, allowNull: false }),
+  email: DataTypes.STRING({ validate: { isEmail: true } }),
+  name: DataTypes.STRING({ validate: { len: [1, 5] } }),
+  age: DataTypes.INTEGER({ validate: { min: 0, max: 150 } }),
+  tier: DataTypes.STRING({ validate: { isIn: ["free", "pro"] } }),
+  code: DataTypes.STRING({ validate: { is: /^[A-Z]{3}$/ } }),
+  balance: DataTypes.DECIMAL(5, 2, {
+    validate: {
+      notNegative(value: any) {
+        if (Number(value) < 0) throw new Error("must not be negative");
+      },
+    },
+  }),
+  tags: DataTypes.ARRAY(DataTypes.STRING({ validate: { len: [1, 3] } })),
+  address: DataTypes.STRUCT({
+    zip: DataTypes.STRING({ allowNull: false }),
+    day: DataTypes.DATEONLY(),
+  }),
+};
+
+const messages = (record: Record<string, any>, partial = false) =>
+  validateRecord(attributes, record, { partial }).map(
+    (e) => `${e.path}: ${e.message}`
+  );
+
+describe("validateRecord", () => {
+  it("accepts a valid record", () => {
+    expect(
+      messages({
+        id: "9223372036854775807",
+        email: "a@b.io",
+        name: "Ann",
+        age: 30,
+        tier: "pro",
+        code: "ABC",
+        balance: "999.99",
+        tags: ["a", "bcd"],
+        address: { zip: "10115", day: "2024-02-29" },
+      })
+    ).toEqual([]);
+  });
+
+  it("reports every failing validator and type check", () => {
+    expect(
+      messages({
+        email: "nope",
+        name: "",
+        age: -1,
+        tier: "gold",
+        code: "ab",
+        balance: "-1000.001",
+        tags: ["", "abcd"],
+        address: { day: "2023-02-29" },
+      })
+    ).toEqual([
+      "id: Missing required field id",
+      "email: must be a valid email address",
+      "name: length must be between 1 and 5",
+      "age: must be at least 0",
+      "tier: must be one of free, pro",
+      "code: must match /^[A-Z]{3}$/",
+      "balance: must have at most 2 decimal places",
+      "tags[0]: length must be between 1 and 3",
+      "tags[1]: length must be between 1 and 3",
+      "address.zip: cannot be null",
+      "address.day: must be a date in YYYY-MM-DD format",
+    ]);
+  });
+
+  it("checks values against their BigQuery type", () => {
+    expect(
+      messages({
+        id: "9223372036854775808",
+        age: 1.5,
+        balance: 1234,
+        tags: "a",
+        address: [],
+      })
+    ).toEqual([
+      "id: is outside the INT64 range",
+      "age: must be an integer",
+      "balance: must have at most 3 integer digits",
+      "tags: must be an array",
+      "address: must be an object",
+    ]);
+    expect(messages({ id: 2 ** 53 })).toEqual([
+      "id: exceeds the safe integer range; pass a string or bigint",
+    ]);
+  });
+
+  it("runs custom validators and skips missing fields for partial records", () => {
+    expect(messages({ balance: -5 }, true)).toEqual([
+      "balance: must not be negative",
+    ]);
+    expect(messages({ id: null }, true)).toEqual(["id: cannot be null"]);
+  });
+});
+
+describe("ValidationError", () => {
+  it("is thrown by create with every invalid field before anything is sent", async () => {
+    const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+    orm.logger = { info() {}, warn() {}, error() {} } as any;
+    let queried = false;
+    orm.runQuery = async () => {
+      queried = true;
+      return { rows: [] };
+    };
+    const Customer = orm.define("Customer", attributes, {
+      tableName: "customers",
+    });
+
+    const err = await Customer.create({ id: 1, email: "nope", age: -1 }).catch(
+      (e) => e
+    );
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.message).toBe(
+      "Validation failed: email: must be a valid email address; age: must be at least 0"
+    );
+    expect(err.fieldErrors).toEqual({
+      email: ["must be a valid email address"],
+      age: ["must be at least 0"],
+    });
+    expect(queried).toBe(false);
+  });
+
+  it("is thrown by update for the provided values only", async () => {
+    const orm = new BigQueryORM({ projectId: "p", defaultDataset: "d" });
+    orm.logger = { info() {}, warn() {}, error() {} } as any;
+    const Customer = orm.define("Customer", attributes, {
+      tableName: "customers",
+    });
+    await expect(
+      Customer.update({ tier: "gold" }, { where: { id: 1 } })
+    ).rejects.toThrow("Validation failed: tier: must be one of free, pro");
+  });
+});
@@ -0,0 +1,150 @@
+// test/where.test.ts
+import { describe, expect, it } from "vitest";
+import { DataTypes } from "../src/dataTypes";
+import { Op } from "../src/op";
+import { WhereClauseOptions, buildWhereClause } from "../src/utils";
+
+const attributes = {
+  id: DataTypes.INTEGER({ primaryKey: true }),
+  name: DataTypes.STRING(),
+  age: DataTypes.INTEGER(),
+  score: DataTypes.DECIMAL(10, 2),
+  createdAt: DataTypes.DATE(),
+  deletedAt: DataTypes.DATE(),
+  tags: DataTypes.ARRAY(DataTypes.STRING()),
+  address: DataTypes.STRUCT({
+    zip: DataTypes.STRING(),
+    geo: DataTypes.STRUCT({ lat: DataTypes.FLOAT() }),
+  }),
+};
+
+function compile(where: any, options: WhereClauseOptions = {}) {
+  return buildWhereClause(where, {}, 0, options);
+}
+
+describe("buildWhereClause", () => {
+  it("combines several operators on one field", () => {
+    expect(
+      compile({
+        age: { gte: 18, [Op.lt]: 65, ne: 30 },
+        name: { like: "%Doe%", notLike: "%Jr%" },
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("compiles between and notBetween", () => {
+    expect(
+      compile({
+        age: { between: [18, 65] },
+        score: { [Op.notBetween]: [0, 10] },
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("rejects between without a pair", () => {
+    expect(() => compile({ age: { between: [1] } })).toThrow(
+      "Op.between expects a [start, end] pair"
+    );
+  });
+
+  it("compiles is and isNot null", () => {
+    expect(
+      compile({
+        deletedAt: { is: null },
+        createdAt: { [Op.isNot]: null },
+        name: null,
+        age: { ne: null },
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("nests and, or and not groups", () => {
+    expect(
+      compile({
+        or: [
+          { name: "a", age: { gt: 1 } },
+          { and: [{ id: 2 }, { not: { name: "b" } }] },
+          { [Op.not]: [{ age: { lt: 5 } }, { or: { id: 3, name: "c" } }] },
+        ],
+        age: { not: { between: [1, 2] } },
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("compiles empty in and notIn", () => {
+    expect(
+      compile({ id: { in: [] }, age: { notIn: [] }, name: [] })
+    ).toMatchSnapshot();
+    expect(compile({ id: [1, 2], age: { notIn: [3] } })).toMatchSnapshot();
+  });
+
+  it("compiles contains and contained via UNNEST", () => {
+    expect(
+      compile(
+        {
+          tags: { contains: ["a", "b"] },
+          or: [
+            { tags: { contained: ["x", "y"] } },
+            { tags: { contained: [] } },
+          ],
+        },
+        { attributes }
+      )
+    ).toMatchSnapshot();
+  });
+
+  it("compiles any and all", () => {
+    expect(
+      compile({ id: { any: [1, 2] }, age: { all: [3] } }, { attributes })
+    ).toMatchSnapshot();
+  });
+
+  it("addresses STRUCT fields with dotted paths", () => {
+    expect(
+      compile(
+        { "address.zip": "10115", "address.geo.lat": { gt: 52.5 } },
+        { alias: "users", attributes }
+      )
+    ).toMatchSnapshot();
+  });
+
+  it("compares REPEATED columns as whole arrays", () => {
+    expect(
+      compile({ tags: ["a", "b"], and: [{ tags: { ne: [] } }] }, { attributes })
+    ).toMatchSnapshot();
+    expect(() => compile({ tags: "a" }, { attributes })).toThrow(
+      "is an ARRAY column"
+    );
+  });
+
+  it("types every parameter from the model attributes", () => {
+    const { types } = compile(
+      {
+        id: [1, 2],
+        score: { between: ["1.00", "2.00"] },
+        createdAt: { gt: new Date("2024-01-01T00:00:00Z") },
+        tags: { contains: "a" },
+        "address.zip": null,
+        "address.geo.lat": 1.5,
+        unknown: "untyped",
+      },
+      { attributes }
+    );
+    expect(types).toMatchSnapshot();
+  });
+
+  it("continues parameter numbering and qualifies columns with the alias", () => {
+    expect(
+      buildWhereClause({ id: 1, name: { in: ["a", "b"] } }, {}, 5, {
+        alias: "posts",
+        attributes,
+      })
+    ).toMatchSnapshot();
+  });
+
+  it("rejects unknown operators", () => {
+    expect(() => compile({ age: { greater: 1 } })).toThrow(
+      'Unknown operator "greater"'
+    );
+  });
+});